@@ -9,31 +9,59 @@ import { ChatView } from './components/Chat/ChatView';
 import { Header } from './components/Layout/Header';
 import { ProjectSelector } from './components/Layout/ProjectSelector';
 import { FilePanel } from './components/Files';
+import { McpPage } from './components/Mcp';
 import { LoginPage } from './components/Auth';
 import { useWebSocket } from './hooks/useWebSocket';
 import { useChat } from './hooks/useChat';
 import { useAuth, getAuthHeaders } from './hooks/useAuth';
+import { useSession } from './hooks/useSession';
+import { useModels } from './hooks/useModels';
 
 function App() {
   const { token, isAuthenticated, checking, login } = useAuth();
+  const { sessionId, setSessionId } = useSession();
   const [projectPath, setProjectPath] = useState<string | null>(null);
   const [showProjectSelector, setShowProjectSelector] = useState(false);
   const [showFiles, setShowFiles] = useState(false);
+  const [showMcp, setShowMcp] = useState(false);
 
   const {
     connected,
     sessionInfo,
+    sessionClosed,
+    reattach,
     sendMessage: wsSend,
     subscribe,
-  } = useWebSocket(token);
+  } = useWebSocket(token, sessionId);
   const {
     messages,
     isLoading,
-    pendingConfirmation,
+    pendingConfirmations,
     sendMessage,
     confirmTool,
     cancelRequest,
-  } = useChat(wsSend, subscribe);
+  } = useChat(wsSend, subscribe, sessionId);
+  const {
+    models,
+    currentModel,
+    selectModel,
+    refresh: refreshModels,
+  } = useModels(sessionId);
+
+  // A run may have fallen back to another model; pick that up when it ends
+  useEffect(() => {
+    if (!isLoading) {
+      void refreshModels();
+    }
+  }, [isLoading, refreshModels]);
+
+  // ...and as soon as the model switch notice arrives
+  const lastMessage = messages[messages.length - 1];
+  useEffect(() => {
+    if (lastMessage?.role === 'system') {
+      void refreshModels();
+    }
+  }, [lastMessage, refreshModels]);
 
   // Sync projectPath from session - MUST be before any conditional returns
   useEffect(() => {
@@ -42,6 +70,32 @@ function App() {
     }
   }, [sessionInfo]);
 
+  // The server no longer has our session loaded (e.g. after a restart):
+  // try to resume it from disk, otherwise go back to project selection
+  useEffect(() => {
+    if (!sessionClosed || !sessionId) return;
+
+    const resume = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/resume`, {
+          method: 'POST',
+          headers: getAuthHeaders(),
+        });
+        if (response.ok) {
+          // Re-attach now that the session is loaded again
+          reattach();
+          return;
+        }
+      } catch {
+        // Fall through to project selection
+      }
+      setSessionId(null);
+      setProjectPath(null);
+    };
+
+    void resume();
+  }, [sessionClosed, sessionId, setSessionId, reattach]);
+
   // Show loading while checking auth
   if (checking) {
     return (
@@ -68,6 +122,8 @@ function App() {
       });
 
       if (response.ok) {
+        const data = await response.json();
+        setSessionId(data.sessionId);
         setProjectPath(path);
         setShowProjectSelector(false);
       } else {
@@ -79,6 +135,26 @@ function App() {
     }
   };
 
+  const handleResumeSession = async (id: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${id}/resume`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setSessionId(data.sessionId);
+        setProjectPath(data.projectPath);
+        setShowProjectSelector(false);
+      } else {
+        alert(data.error || 'Failed to resume session');
+      }
+    } catch (_error) {
+      alert('Failed to connect to server');
+    }
+  };
+
   if (!projectPath || showProjectSelector) {
     return (
       <div className="h-full flex flex-col">
@@ -89,6 +165,7 @@ function App() {
         />
         <ProjectSelector
           onSelect={handleSelectProject}
+          onResume={handleResumeSession}
           currentPath={projectPath}
         />
       </div>
@@ -99,26 +176,50 @@ function App() {
     <div className="h-full flex flex-col bg-gray-50">
       <Header
         projectPath={projectPath}
+        readOnly={sessionInfo?.readOnly}
         connected={connected}
+        models={models}
+        currentModel={currentModel}
+        onSelectModel={selectModel}
+        modelLocked={isLoading}
         onChangeProject={() => setShowProjectSelector(true)}
         onToggleFiles={() => setShowFiles(!showFiles)}
         showFiles={showFiles}
+        onToggleMcp={() => setShowMcp(!showMcp)}
+        showMcp={showMcp}
       />
       <div className="flex-1 flex overflow-hidden">
         {/* File Panel - Mobile: full screen overlay, Desktop: side panel */}
         {showFiles && (
           <div className="w-full sm:w-80 sm:flex-shrink-0 absolute sm:relative inset-0 top-auto h-[calc(100%-60px)] sm:h-auto z-40 sm:z-auto bg-white sm:border-r sm:border-gray-200">
-            <FilePanel onClose={() => setShowFiles(false)} />
+            <FilePanel
+              sessionId={sessionId}
+              onClose={() => setShowFiles(false)}
+            />
+          </div>
+        )}
+        {/* MCP settings take the place of the chat while open */}
+        {showMcp && (
+          <div
+            className={`flex-1 min-w-0 ${showFiles ? 'hidden sm:block' : ''}`}
+          >
+            <McpPage
+              sessionId={sessionId}
+              readOnly={sessionInfo?.readOnly}
+              onClose={() => setShowMcp(false)}
+            />
           </div>
         )}
         {/* Chat View */}
         <div
-          className={`flex-1 min-w-0 ${showFiles ? 'hidden sm:flex' : 'flex'}`}
+          className={`flex-1 min-w-0 ${
+            showMcp ? 'hidden' : showFiles ? 'hidden sm:flex' : 'flex'
+          }`}
         >
           <ChatView
             messages={messages}
             isLoading={isLoading}
-            pendingConfirmation={pendingConfirmation}
+            pendingConfirmations={pendingConfirmations}
             onSendMessage={sendMessage}
             onConfirmTool={confirmTool}
             onCancel={cancelRequest}
@@ -5,10 +5,10 @@
  */
 
 import type React from 'react';
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 
 interface LoginPageProps {
-  onLogin: (token: string) => void;
+  onLogin: (token: string, expiresAt: number) => void;
 }
 
 export function LoginPage({ onLogin }: LoginPageProps) {
@@ -16,9 +16,30 @@ export function LoginPage({ onLogin }: LoginPageProps) {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  // Set after a 429: when the server will accept another attempt
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const waitSeconds = retryAt
+    ? Math.max(0, Math.ceil((retryAt - now) / 1000))
+    : 0;
+
+  // Tick the countdown while locked out
+  useEffect(() => {
+    if (!retryAt) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) {
+        setRetryAt(null);
+        setError('');
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (waitSeconds > 0) return;
     setError('');
     setLoading(true);
 
@@ -31,11 +52,19 @@ export function LoginPage({ onLogin }: LoginPageProps) {
 
       const data = await response.json();
 
+      if (response.status === 429) {
+        const retryAfter = Number(data.retryAfter) || 1;
+        setNow(Date.now());
+        setRetryAt(Date.now() + retryAfter * 1000);
+        setError('Too many failed attempts.');
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(data.error || 'Login failed');
       }
 
-      onLogin(data.token);
+      onLogin(data.token, data.expiresAt);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -127,13 +156,16 @@ export function LoginPage({ onLogin }: LoginPageProps) {
                     d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
                   />
                 </svg>
-                {error}
+                <span>
+                  {error}
+                  {waitSeconds > 0 && ` Try again in ${formatWait(waitSeconds)}.`}
+                </span>
               </div>
             )}
 
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || waitSeconds > 0}
               className="w-full py-3.5 rounded-xl font-semibold transition-all duration-200
                        bg-gradient-to-r from-primary-600 to-primary-500 text-white
                        hover:from-primary-500 hover:to-primary-400 hover:shadow-glow
@@ -163,6 +195,8 @@ export function LoginPage({ onLogin }: LoginPageProps) {
                   </svg>
                   Signing in...
                 </span>
+              ) : waitSeconds > 0 ? (
+                `Locked (${formatWait(waitSeconds)})`
               ) : (
                 'Sign In'
               )}
@@ -178,3 +212,9 @@ export function LoginPage({ onLogin }: LoginPageProps) {
     </div>
   );
 }
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -8,21 +8,30 @@ import { useRef, useEffect } from 'react';
 import { MessageList } from './MessageList';
 import { InputBar } from './InputBar';
 import { ToolConfirmModal } from '../ToolConfirm/ToolConfirmModal';
-import type { ChatMessage, PendingConfirmation } from '../../hooks/useChat';
+import type {
+  ChatMessage,
+  ConfirmOptions,
+  ConfirmationOutcome,
+  PendingConfirmation,
+} from '../../hooks/useChat';
 
 interface ChatViewProps {
   messages: ChatMessage[];
   isLoading: boolean;
-  pendingConfirmation?: PendingConfirmation | null;
+  pendingConfirmations?: PendingConfirmation[];
   onSendMessage: (message: string) => void;
-  onConfirmTool: (confirmed: boolean) => void;
+  onConfirmTool: (
+    callId: string,
+    outcome: ConfirmationOutcome,
+    options?: ConfirmOptions,
+  ) => void;
   onCancel: () => void;
 }
 
 export function ChatView({
   messages,
   isLoading,
-  pendingConfirmation,
+  pendingConfirmations = [],
   onSendMessage,
   onConfirmTool,
   onCancel,
@@ -52,7 +61,7 @@ export function ChatView({
         )}
 
         {/* Loading indicator */}
-        {isLoading && messages[messages.length - 1]?.role === 'user' && (
+        {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
           <div className="px-4 py-3 flex items-center gap-3">
             <div className="avatar-assistant">
               <svg
@@ -86,13 +95,10 @@ export function ChatView({
       />
 
       {/* Tool confirmation modal */}
-      {pendingConfirmation && (
+      {pendingConfirmations.length > 0 && (
         <ToolConfirmModal
-          toolName={pendingConfirmation.toolName}
-          args={pendingConfirmation.args}
-          details={pendingConfirmation.details}
-          onConfirm={() => onConfirmTool(true)}
-          onCancel={() => onConfirmTool(false)}
+          confirmations={pendingConfirmations}
+          onAnswer={onConfirmTool}
         />
       )}
     </div>
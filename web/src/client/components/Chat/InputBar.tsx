@@ -6,6 +6,7 @@
 
 import type React from 'react';
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { useCommands } from '../../hooks/useCommands';
 
 interface InputBarProps {
   onSendMessage: (message: string) => void;
@@ -13,15 +14,16 @@ interface InputBarProps {
   isLoading: boolean;
 }
 
-// Slash commands available
-const SLASH_COMMANDS = [
-  { command: '/clear', description: 'Clear conversation history', icon: '🗑️' },
-  { command: '/help', description: 'Show available commands', icon: '❓' },
-  { command: '/compact', description: 'Toggle compact mode', icon: '📐' },
-  { command: '/tools', description: 'List available tools', icon: '🔧' },
-  { command: '/memory', description: 'Show memory bank', icon: '🧠' },
-  { command: '/stats', description: 'Show session statistics', icon: '📊' },
-];
+// Icons for the built-in commands; the list itself comes from the server
+const COMMAND_ICONS: Record<string, string> = {
+  '/clear': '🗑️',
+  '/help': '❓',
+  '/compact': '📐',
+  '/tools': '🔧',
+  '/memory': '🧠',
+  '/stats': '📊',
+};
+const DEFAULT_COMMAND_ICON = '⌘';
 
 const HISTORY_KEY = 'gemini_web_history';
 const MAX_HISTORY = 50;
@@ -59,10 +61,11 @@ export function InputBar({
   const [showHistory, setShowHistory] = useState(false);
   const [selectedCommand, setSelectedCommand] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const commands = useCommands();
 
   // Filter commands based on input
   const filteredCommands = input.startsWith('/')
-    ? SLASH_COMMANDS.filter((cmd) =>
+    ? commands.filter((cmd) =>
         cmd.command.toLowerCase().startsWith(input.toLowerCase()),
       )
     : [];
@@ -284,7 +287,9 @@ export function InputBar({
                       : 'hover:bg-zinc-50'
                   }`}
                 >
-                  <span className="text-lg">{cmd.icon}</span>
+                  <span className="text-lg">
+                    {COMMAND_ICONS[cmd.command] ?? DEFAULT_COMMAND_ICON}
+                  </span>
                   <div>
                     <span
                       className={`font-mono text-sm font-medium ${
@@ -6,7 +6,14 @@
 
 import React from 'react';
 import ReactMarkdown from 'react-markdown';
-import type { ChatMessage, ToolCall } from '../../hooks/useChat';
+import type {
+  ChatMessage,
+  CommandOutput,
+  CommandResult,
+  SessionStats,
+  ToolCall,
+  TurnUsage,
+} from '../../hooks/useChat';
 
 interface MessageListProps {
   messages: ChatMessage[];
@@ -23,6 +30,14 @@ export function MessageList({ messages }: MessageListProps) {
 }
 
 function MessageBubble({ message }: { message: ChatMessage }) {
+  if (message.role === 'system') {
+    return message.command ? (
+      <CommandCard output={message.command} />
+    ) : (
+      <SystemNotice message={message} />
+    );
+  }
+
   const isUser = message.role === 'user';
 
   return (
@@ -93,6 +108,9 @@ function MessageBubble({ message }: { message: ChatMessage }) {
             </div>
           )}
 
+          {/* Token usage of the finished answer */}
+          {message.usage && <UsageFooter usage={message.usage} />}
+
           {/* Streaming indicator */}
           {message.isStreaming && !message.content && (
             <div className="flex items-center gap-1.5 py-1">
@@ -107,13 +125,212 @@ function MessageBubble({ message }: { message: ChatMessage }) {
   );
 }
 
+function SystemNotice({ message }: { message: ChatMessage }) {
+  return (
+    <div className="flex justify-center animate-fade-in">
+      <div className="message-system">
+        <span className="text-amber-500">⚠</span>
+        <span>{message.content}</span>
+      </div>
+    </div>
+  );
+}
+
+function formatTokens(count: number): string {
+  return count.toLocaleString();
+}
+
+function formatLatency(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function UsageFooter({ usage }: { usage: TurnUsage[] }) {
+  const tokens = usage.reduce((sum, turn) => sum + turn.total, 0);
+  const latency = usage.reduce((sum, turn) => sum + turn.latencyMs, 0);
+  const models = [...new Set(usage.map((turn) => turn.model))].join(', ');
+  return (
+    <div
+      className="mt-2 text-[11px] text-zinc-400"
+      title={usage
+        .map(
+          (turn) =>
+            `${turn.model}: ${turn.prompt} in / ${turn.response} out` +
+            ` / ${turn.cached} cached / ${turn.thoughts} thoughts,` +
+            ` ${formatLatency(turn.latencyMs)}`,
+        )
+        .join('\n')}
+    >
+      {formatTokens(tokens)} tokens · {formatLatency(latency)} · {models}
+    </div>
+  );
+}
+
+function CommandCard({ output }: { output: CommandOutput }) {
+  return (
+    <div className="flex justify-center animate-fade-in">
+      <div className="message-assistant max-w-[95%] overflow-x-auto px-4 py-3 text-xs">
+        <div className="font-mono text-zinc-400 mb-2">{output.command}</div>
+        <CommandResultView result={output.result} />
+      </div>
+    </div>
+  );
+}
+
+function CommandResultView({ result }: { result: CommandResult }) {
+  switch (result.kind) {
+    case 'help':
+    case 'tools': {
+      const rows =
+        result.kind === 'help'
+          ? result.commands.map((c) => ({
+              name: c.command,
+              description: c.description,
+              note: '',
+              enabled: true,
+            }))
+          : result.tools.map((t) => ({
+              name: t.name,
+              description: t.description,
+              note: [
+                t.source.type === 'mcp' ? `MCP: ${t.source.server}` : '',
+                t.enabled ? '' : 'disabled',
+              ]
+                .filter(Boolean)
+                .join(', '),
+              enabled: t.enabled,
+            }));
+      return (
+        <table className="border-collapse">
+          <tbody>
+            {rows.map(({ name, description, note, enabled }) => (
+              <tr
+                key={name}
+                className={`align-top ${enabled ? '' : 'opacity-50'}`}
+              >
+                <td className="pr-4 py-0.5 font-mono whitespace-nowrap text-zinc-700">
+                  {name}
+                </td>
+                <td className="py-0.5 text-zinc-500">
+                  {description.split('\n')[0]}
+                  {note && <span className="ml-1 text-zinc-400">({note})</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+    case 'cleared':
+      return <div className="text-zinc-700">Conversation cleared.</div>;
+    case 'compressed':
+      return (
+        <div className="text-zinc-700">
+          {result.compressed
+            ? `Conversation compressed from ${formatTokens(result.originalTokens)} to ${formatTokens(result.newTokens)} tokens.`
+            : 'Nothing to compress.'}
+        </div>
+      );
+    case 'memory':
+      return (
+        <div className="space-y-2">
+          {result.action !== 'show' && (
+            <div className="text-zinc-700">
+              {result.action === 'add'
+                ? `Added to ${result.projectFile}, memory reloaded.`
+                : 'Memory reloaded.'}
+            </div>
+          )}
+          <div className="text-zinc-500">
+            {result.files.length
+              ? `Loaded from: ${result.files.join(', ')}`
+              : 'No GEMINI.md files loaded.'}
+          </div>
+          {result.content && (
+            <div className="message-content text-sm text-zinc-800">
+              <ReactMarkdown>{result.content}</ReactMarkdown>
+            </div>
+          )}
+        </div>
+      );
+    case 'stats':
+      return <StatsTable stats={result.stats} />;
+    case 'error':
+      return <div className="text-red-600">Error: {result.message}</div>;
+  }
+}
+
+function StatsTable({ stats }: { stats: SessionStats }) {
+  const rows = [
+    ...Object.entries(stats.byModel).map(([model, totals]) => ({
+      label: model,
+      totals,
+    })),
+    { label: 'Total', totals: stats.total },
+  ];
+  return (
+    <div>
+      <div className="font-medium text-zinc-700 mb-2">
+        Current model {stats.model}
+      </div>
+      <table className="border-collapse">
+        <thead>
+          <tr className="text-zinc-500 text-left">
+            <th className="pr-4 font-medium">Model</th>
+            <th className="pr-4 font-medium text-right">Requests</th>
+            <th className="pr-4 font-medium text-right">Prompt</th>
+            <th className="pr-4 font-medium text-right">Cached</th>
+            <th className="pr-4 font-medium text-right">Response</th>
+            <th className="pr-4 font-medium text-right">Thoughts</th>
+            <th className="pr-4 font-medium text-right">Total</th>
+            <th className="font-medium text-right">Avg latency</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono text-zinc-700">
+          {rows.map(({ label, totals }) => (
+            <tr
+              key={label}
+              className={label === 'Total' ? 'border-t border-zinc-200' : ''}
+            >
+              <td className="pr-4 font-sans">{label}</td>
+              <td className="pr-4 text-right">{totals.requests}</td>
+              <td className="pr-4 text-right">
+                {formatTokens(totals.prompt)}
+              </td>
+              <td className="pr-4 text-right">
+                {formatTokens(totals.cached)}
+              </td>
+              <td className="pr-4 text-right">
+                {formatTokens(totals.response)}
+              </td>
+              <td className="pr-4 text-right">
+                {formatTokens(totals.thoughts)}
+              </td>
+              <td className="pr-4 text-right">
+                {formatTokens(totals.total)}
+              </td>
+              <td className="text-right">
+                {totals.requests
+                  ? formatLatency(totals.latencyMs / totals.requests)
+                  : '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 function ToolCallCard({ toolCall }: { toolCall: ToolCall }) {
   const statusConfig = {
     pending: { class: 'tool-badge-pending', icon: '○', label: 'Pending' },
+    validating: { class: 'tool-badge-pending', icon: '○', label: 'Checking' },
+    confirm: { class: 'tool-badge-confirm', icon: '?', label: 'Confirm' },
+    scheduled: { class: 'tool-badge-pending', icon: '◌', label: 'Queued' },
     running: { class: 'tool-badge-running', icon: '◎', label: 'Running' },
     completed: { class: 'tool-badge-completed', icon: '✓', label: 'Done' },
+    error: { class: 'tool-badge-error', icon: '!', label: 'Failed' },
     cancelled: { class: 'tool-badge-cancelled', icon: '✕', label: 'Cancelled' },
-    confirm: { class: 'tool-badge-confirm', icon: '?', label: 'Confirm' },
   };
 
   const config = statusConfig[toolCall.status];
@@ -123,10 +340,13 @@ function ToolCallCard({ toolCall }: { toolCall: ToolCall }) {
     <div className="tool-card">
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
-          <span className={`tool-badge ${config.class}`}>
+          <span className={`tool-badge ${config.class}`} title={config.label}>
             <span>{config.icon}</span>
             <span>{toolCall.name}</span>
           </span>
+          {toolCall.status !== 'completed' && (
+            <span className="text-xs text-zinc-500">{config.label}</span>
+          )}
         </div>
         {(Object.keys(toolCall.args).length > 0 || toolCall.result) && (
           <button
@@ -151,6 +371,12 @@ function ToolCallCard({ toolCall }: { toolCall: ToolCall }) {
         )}
       </div>
 
+      {toolCall.status === 'error' && toolCall.error && (
+        <div className="mt-2 text-xs text-red-700 break-words">
+          {toolCall.error}
+        </div>
+      )}
+
       {expanded && (
         <div className="mt-3 space-y-2 animate-fade-in">
           {/* Args */}
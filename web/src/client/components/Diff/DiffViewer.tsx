@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import {
+  parseUnifiedDiff,
+  toSplitRows,
+  type DiffHunk,
+  type DiffLine,
+} from './diff';
+import { highlightLine, languageFor, type TokenKind } from './highlight';
+
+interface DiffViewerProps {
+  fileName: string;
+  fileDiff: string; // Unified diff
+  isNewFile?: boolean;
+}
+
+type ViewMode = 'unified' | 'split';
+
+const TOKEN_STYLES: Record<TokenKind, string> = {
+  plain: '',
+  keyword: 'text-purple-700',
+  string: 'text-emerald-700',
+  comment: 'text-gray-400 italic',
+  number: 'text-orange-600',
+};
+
+const LINE_STYLES: Record<DiffLine['kind'], string> = {
+  context: '',
+  add: 'bg-green-50',
+  del: 'bg-red-50',
+};
+
+const LINE_MARKS: Record<DiffLine['kind'], string> = {
+  context: ' ',
+  add: '+',
+  del: '-',
+};
+
+function Code({
+  text,
+  language,
+}: {
+  text: string;
+  language: ReturnType<typeof languageFor>;
+}) {
+  return (
+    <>
+      {highlightLine(text, language).map((token, i) => (
+        <span key={i} className={TOKEN_STYLES[token.kind]}>
+          {token.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function LineNumber({ value }: { value: number | null }) {
+  return (
+    <td className="px-2 text-right text-gray-400 select-none align-top w-10">
+      {value ?? ''}
+    </td>
+  );
+}
+
+function UnifiedHunk({
+  hunk,
+  language,
+}: {
+  hunk: DiffHunk;
+  language: ReturnType<typeof languageFor>;
+}) {
+  return (
+    <>
+      {hunk.lines.map((line, i) => (
+        <tr key={i} className={LINE_STYLES[line.kind]}>
+          <LineNumber value={line.oldNumber} />
+          <LineNumber value={line.newNumber} />
+          <td className="pr-3 whitespace-pre">
+            <span className="select-none text-gray-400">
+              {LINE_MARKS[line.kind]}{' '}
+            </span>
+            <Code text={line.text} language={language} />
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function SplitHunk({
+  hunk,
+  language,
+}: {
+  hunk: DiffHunk;
+  language: ReturnType<typeof languageFor>;
+}) {
+  const side = (line: DiffLine | null, number: number | null) => (
+    <>
+      <LineNumber value={number} />
+      <td
+        className={`pr-3 whitespace-pre w-1/2 ${
+          line ? LINE_STYLES[line.kind] : 'bg-gray-50'
+        }`}
+      >
+        {line && <Code text={line.text} language={language} />}
+      </td>
+    </>
+  );
+
+  return (
+    <>
+      {toSplitRows(hunk).map((row, i) => (
+        <tr key={i}>
+          {side(row.left, row.left?.oldNumber ?? null)}
+          {side(row.right, row.right?.newNumber ?? null)}
+        </tr>
+      ))}
+    </>
+  );
+}
+
+/**
+ * A diff with syntax highlighting, shown unified or side by side, with
+ * buttons (or n / p while focused) to step through the hunks
+ */
+export function DiffViewer({ fileName, fileDiff, isNewFile }: DiffViewerProps) {
+  const hunks = useMemo(() => parseUnifiedDiff(fileDiff), [fileDiff]);
+  const language = useMemo(() => languageFor(fileName), [fileName]);
+  const [mode, setMode] = useState<ViewMode>(() =>
+    window.matchMedia('(min-width: 640px)').matches ? 'split' : 'unified',
+  );
+  const [current, setCurrent] = useState(0);
+  const hunkRefs = useRef<(HTMLTableSectionElement | null)[]>([]);
+
+  const added = hunks.reduce(
+    (n, hunk) => n + hunk.lines.filter((l) => l.kind === 'add').length,
+    0,
+  );
+  const removed = hunks.reduce(
+    (n, hunk) => n + hunk.lines.filter((l) => l.kind === 'del').length,
+    0,
+  );
+
+  const goTo = (index: number) => {
+    const next = Math.min(Math.max(index, 0), hunks.length - 1);
+    setCurrent(next);
+    hunkRefs.current[next]?.scrollIntoView({
+      block: 'start',
+      behavior: 'smooth',
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'n') goTo(current + 1);
+    if (e.key === 'p') goTo(current - 1);
+  };
+
+  const columns = mode === 'split' ? 4 : 3;
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 border-b border-gray-200 text-xs">
+        <span className="font-mono font-medium text-gray-800 truncate">
+          {fileName}
+        </span>
+        {isNewFile && (
+          <span className="px-1.5 py-0.5 bg-blue-100 text-blue-700 rounded">
+            New file
+          </span>
+        )}
+        <span className="text-green-700">+{added}</span>
+        <span className="text-red-700">-{removed}</span>
+        <div className="flex-1" />
+        {hunks.length > 1 && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => goTo(current - 1)}
+              disabled={current === 0}
+              className="px-1.5 py-0.5 rounded hover:bg-gray-200 disabled:opacity-40"
+              title="Previous change (p)"
+            >
+              ↑
+            </button>
+            <span className="text-gray-500 tabular-nums">
+              {current + 1}/{hunks.length}
+            </span>
+            <button
+              onClick={() => goTo(current + 1)}
+              disabled={current === hunks.length - 1}
+              className="px-1.5 py-0.5 rounded hover:bg-gray-200 disabled:opacity-40"
+              title="Next change (n)"
+            >
+              ↓
+            </button>
+          </div>
+        )}
+        <div className="flex rounded-md border border-gray-200 overflow-hidden">
+          {(['unified', 'split'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-2 py-0.5 ${
+                mode === m ? 'bg-white font-medium' : 'text-gray-500'
+              }`}
+            >
+              {m === 'unified' ? 'Unified' : 'Split'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Hunks */}
+      <div
+        className="max-h-[50vh] overflow-auto focus:outline-none"
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+      >
+        {hunks.length === 0 ? (
+          <div className="px-3 py-2 text-xs text-gray-500">No changes</div>
+        ) : (
+          <table className="w-full font-mono text-xs border-collapse">
+            {hunks.map((hunk, i) => (
+              <tbody
+                key={i}
+                ref={(el) => {
+                  hunkRefs.current[i] = el;
+                }}
+              >
+                <tr
+                  className={
+                    i === current
+                      ? 'bg-blue-100 text-blue-800'
+                      : 'bg-blue-50 text-blue-600'
+                  }
+                >
+                  <td colSpan={columns} className="px-3 py-1">
+                    {hunk.header}
+                  </td>
+                </tr>
+                {mode === 'split' ? (
+                  <SplitHunk hunk={hunk} language={language} />
+                ) : (
+                  <UnifiedHunk hunk={hunk} language={language} />
+                )}
+              </tbody>
+            ))}
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
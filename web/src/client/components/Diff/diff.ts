@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type DiffLineKind = 'context' | 'add' | 'del';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  oldNumber: number | null; // Line number before the change
+  newNumber: number | null; // Line number after the change
+}
+
+export interface DiffHunk {
+  header: string; // The "@@ -a,b +c,d @@" line
+  lines: DiffLine[];
+}
+
+// One row of the side-by-side view; a side is null where it has no line
+export interface SplitRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse the hunks of a unified diff (as the core's edit confirmations
+ * carry). File headers and "\ No newline" markers are skipped.
+ */
+export function parseUnifiedDiff(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const lines = patch.split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const header = HUNK_HEADER.exec(lines[i]);
+    i++;
+    if (!header) continue;
+
+    let oldNumber = Number(header[1]);
+    let newNumber = Number(header[3]);
+    let oldLeft = header[2] === undefined ? 1 : Number(header[2]);
+    let newLeft = header[4] === undefined ? 1 : Number(header[4]);
+    const hunk: DiffHunk = { header: lines[i - 1], lines: [] };
+
+    // Counting lines rather than looking at prefixes keeps content such as
+    // "--- a" inside a hunk from being mistaken for a header
+    while (i < lines.length && (oldLeft > 0 || newLeft > 0)) {
+      const line = lines[i];
+      i++;
+      const text = line.slice(1);
+      if (line.startsWith('\\')) {
+        continue;
+      } else if (line.startsWith('-')) {
+        hunk.lines.push({ kind: 'del', text, oldNumber, newNumber: null });
+        oldNumber++;
+        oldLeft--;
+      } else if (line.startsWith('+')) {
+        hunk.lines.push({ kind: 'add', text, oldNumber: null, newNumber });
+        newNumber++;
+        newLeft--;
+      } else {
+        hunk.lines.push({ kind: 'context', text, oldNumber, newNumber });
+        oldNumber++;
+        newNumber++;
+        oldLeft--;
+        newLeft--;
+      }
+    }
+    hunks.push(hunk);
+  }
+
+  return hunks;
+}
+
+/**
+ * Lay a hunk out side by side: removed lines on the left next to the lines
+ * that replace them on the right
+ */
+export function toSplitRows(hunk: DiffHunk): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let dels: DiffLine[] = [];
+  let adds: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(dels.length, adds.length); i++) {
+      rows.push({ left: dels[i] ?? null, right: adds[i] ?? null });
+    }
+    dels = [];
+    adds = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.kind === 'del') {
+      dels.push(line);
+    } else if (line.kind === 'add') {
+      adds.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
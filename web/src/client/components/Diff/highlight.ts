@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A small syntax highlighter for diff lines: keywords, strings, comments
+ * and numbers of common languages, picked by file extension. Lines are
+ * tokenized one at a time, so comments and strings spanning several lines
+ * are only colored on their first line.
+ */
+
+export type TokenKind = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface Language {
+  keywords: Set<string>;
+  comment: string; // Regex source for comments
+  string: string; // Regex source for string literals
+}
+
+const C_COMMENT = String.raw`\/\/.*|\/\*.*?(?:\*\/|$)`;
+const HASH_COMMENT = String.raw`#.*`;
+const QUOTED = String.raw`"(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?`;
+const NUMBER = String.raw`\b(?:0x[\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b`;
+
+const words = (list: string) => new Set(list.split(' '));
+
+const JS: Language = {
+  keywords: words(
+    'as async await break case catch class const continue default delete do else enum export extends false finally for from function if implements import in instanceof interface let new null of private protected public readonly return static super switch this throw true try type typeof undefined var void while yield',
+  ),
+  comment: C_COMMENT,
+  string: String.raw`${QUOTED}|\`(?:[^\`\\]|\\.)*\`?`,
+};
+
+const PYTHON: Language = {
+  keywords: words(
+    'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield',
+  ),
+  comment: HASH_COMMENT,
+  string: QUOTED,
+};
+
+const GO: Language = {
+  keywords: words(
+    'break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var',
+  ),
+  comment: C_COMMENT,
+  string: String.raw`${QUOTED}|\`[^\`]*\`?`,
+};
+
+const RUST: Language = {
+  keywords: words(
+    'as async await break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while',
+  ),
+  comment: C_COMMENT,
+  string: QUOTED,
+};
+
+// C, C++, C#, Java, Kotlin, Swift
+const C_FAMILY: Language = {
+  keywords: words(
+    'auto bool break case catch char class const continue default delete do double else enum extends false final float for fun if import int long namespace new null nullptr override package private protected public return short static struct super switch this throw true try typedef val var void while',
+  ),
+  comment: C_COMMENT,
+  string: QUOTED,
+};
+
+const SHELL: Language = {
+  keywords: words(
+    'case do done elif else esac export fi for function if in local return then until while',
+  ),
+  comment: String.raw`(?:^|\s)#.*`,
+  string: QUOTED,
+};
+
+const CSS: Language = {
+  keywords: words('important inherit initial none auto'),
+  comment: String.raw`\/\*.*?(?:\*\/|$)`,
+  string: QUOTED,
+};
+
+const LANGUAGES: Record<string, Language> = {
+  js: JS,
+  jsx: JS,
+  mjs: JS,
+  cjs: JS,
+  ts: JS,
+  tsx: JS,
+  mts: JS,
+  cts: JS,
+  json: JS,
+  py: PYTHON,
+  go: GO,
+  rs: RUST,
+  c: C_FAMILY,
+  h: C_FAMILY,
+  cc: C_FAMILY,
+  cpp: C_FAMILY,
+  hpp: C_FAMILY,
+  cs: C_FAMILY,
+  java: C_FAMILY,
+  kt: C_FAMILY,
+  swift: C_FAMILY,
+  sh: SHELL,
+  bash: SHELL,
+  zsh: SHELL,
+  css: CSS,
+  scss: CSS,
+};
+
+export function languageFor(fileName: string): Language | null {
+  const ext = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return LANGUAGES[ext] ?? null;
+}
+
+const patterns = new Map<Language, RegExp>();
+
+function patternFor(language: Language): RegExp {
+  let pattern = patterns.get(language);
+  if (!pattern) {
+    pattern = new RegExp(
+      `(${language.comment})|(${language.string})|(${NUMBER})|([A-Za-z_$][\\w$]*)`,
+      'g',
+    );
+    patterns.set(language, pattern);
+  }
+  return pattern;
+}
+
+export function highlightLine(
+  line: string,
+  language: Language | null,
+): Token[] {
+  if (!language) {
+    return [{ kind: 'plain', text: line }];
+  }
+
+  const tokens: Token[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === kind) {
+      last.text += text;
+    } else if (text) {
+      tokens.push({ kind, text });
+    }
+  };
+
+  const pattern = patternFor(language);
+  pattern.lastIndex = 0;
+  let end = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line))) {
+    if (match[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    push('plain', line.slice(end, match.index));
+    const [text, comment, string, number] = match;
+    push(
+      comment
+        ? 'comment'
+        : string
+          ? 'string'
+          : number
+            ? 'number'
+            : language.keywords.has(text)
+              ? 'keyword'
+              : 'plain',
+      text,
+    );
+    end = match.index + text.length;
+  }
+  push('plain', line.slice(end));
+  return tokens;
+}
@@ -6,6 +6,7 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { getAuthHeaders } from '../../hooks/useAuth';
+import { getSessionHeaders } from '../../hooks/useSession';
 
 interface FileEntry {
   name: string;
@@ -14,12 +15,14 @@ interface FileEntry {
 }
 
 interface FileBrowserProps {
+  sessionId: string | null;
   onFileSelect: (path: string) => void;
   selectedPath: string | null;
   onRefresh?: () => void;
 }
 
 export function FileBrowser({
+  sessionId,
   onFileSelect,
   selectedPath,
   onRefresh,
@@ -36,7 +39,7 @@ export function FileBrowser({
       const response = await fetch(
         `/api/files?path=${encodeURIComponent(dirPath)}`,
         {
-          headers: getAuthHeaders(),
+          headers: { ...getAuthHeaders(), ...getSessionHeaders(sessionId) },
         },
       );
       if (!response.ok) {
@@ -51,7 +54,7 @@ export function FileBrowser({
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [sessionId]);
 
   useEffect(() => {
     void loadFiles();
@@ -88,7 +91,7 @@ export function FileBrowser({
     try {
       const response = await fetch('/api/files/upload', {
         method: 'POST',
-        headers: getAuthHeaders(),
+        headers: { ...getAuthHeaders(), ...getSessionHeaders(sessionId) },
         body: formData,
       });
       if (!response.ok) {
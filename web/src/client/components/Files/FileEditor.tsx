@@ -7,13 +7,19 @@
 import type React from 'react';
 import { useState, useEffect, useCallback } from 'react';
 import { getAuthHeaders } from '../../hooks/useAuth';
+import { getSessionHeaders } from '../../hooks/useSession';
 
 interface FileEditorProps {
+  sessionId: string | null;
   filePath: string | null;
   onClose: () => void;
 }
 
-export function FileEditor({ filePath, onClose }: FileEditorProps) {
+export function FileEditor({
+  sessionId,
+  filePath,
+  onClose,
+}: FileEditorProps) {
   const [content, setContent] = useState('');
   const [originalContent, setOriginalContent] = useState('');
   const [loading, setLoading] = useState(false);
@@ -31,7 +37,7 @@ export function FileEditor({ filePath, onClose }: FileEditorProps) {
       const response = await fetch(
         `/api/files/content?path=${encodeURIComponent(filePath)}`,
         {
-          headers: getAuthHeaders(),
+          headers: { ...getAuthHeaders(), ...getSessionHeaders(sessionId) },
         },
       );
       if (!response.ok) {
@@ -46,7 +52,7 @@ export function FileEditor({ filePath, onClose }: FileEditorProps) {
     } finally {
       setLoading(false);
     }
-  }, [filePath]);
+  }, [sessionId, filePath]);
 
   useEffect(() => {
     if (filePath) {
@@ -65,6 +71,7 @@ export function FileEditor({ filePath, onClose }: FileEditorProps) {
         headers: {
           'Content-Type': 'application/json',
           ...getAuthHeaders(),
+          ...getSessionHeaders(sessionId),
         },
         body: JSON.stringify({ path: filePath, content }),
       });
@@ -87,7 +94,7 @@ export function FileEditor({ filePath, onClose }: FileEditorProps) {
       const response = await fetch(
         `/api/files/download?path=${encodeURIComponent(filePath)}`,
         {
-          headers: getAuthHeaders(),
+          headers: { ...getAuthHeaders(), ...getSessionHeaders(sessionId) },
         },
       );
       if (!response.ok) {
@@ -9,10 +9,11 @@ import { FileBrowser } from './FileBrowser';
 import { FileEditor } from './FileEditor';
 
 interface FilePanelProps {
+  sessionId: string | null;
   onClose: () => void;
 }
 
-export function FilePanel({ onClose }: FilePanelProps) {
+export function FilePanel({ sessionId, onClose }: FilePanelProps) {
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [view, setView] = useState<'browser' | 'editor'>('browser');
 
@@ -104,11 +105,16 @@ export function FilePanel({ onClose }: FilePanelProps) {
       <div className="flex-1 overflow-hidden">
         {view === 'browser' ? (
           <FileBrowser
+            sessionId={sessionId}
             onFileSelect={handleFileSelect}
             selectedPath={selectedFile}
           />
         ) : (
-          <FileEditor filePath={selectedFile} onClose={handleCloseEditor} />
+          <FileEditor
+            sessionId={sessionId}
+            filePath={selectedFile}
+            onClose={handleCloseEditor}
+          />
         )}
       </div>
     </div>
@@ -4,20 +4,36 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { ModelStatus } from '../../hooks/useModels';
+
 interface HeaderProps {
   projectPath: string | null;
+  readOnly?: boolean;
   connected: boolean;
+  models?: ModelStatus[];
+  currentModel?: string | null;
+  onSelectModel?: (model: string) => void;
+  modelLocked?: boolean; // e.g. while a request is running
   onChangeProject: () => void;
   onToggleFiles?: () => void;
   showFiles?: boolean;
+  onToggleMcp?: () => void;
+  showMcp?: boolean;
 }
 
 export function Header({
   projectPath,
+  readOnly,
   connected,
+  models,
+  currentModel,
+  onSelectModel,
+  modelLocked,
   onChangeProject,
   onToggleFiles,
   showFiles,
+  onToggleMcp,
+  showMcp,
 }: HeaderProps) {
   const projectName = projectPath
     ? projectPath.split(/[/\\]/).pop()
@@ -46,6 +62,11 @@ export function Header({
               className="text-sm text-white/80 hover:text-white flex items-center gap-1 transition-colors"
             >
               <span className="max-w-[150px] truncate">{projectName}</span>
+              {readOnly && (
+                <span className="px-1.5 py-0.5 text-[10px] bg-white/20 rounded">
+                  Read-only
+                </span>
+              )}
               <svg
                 className="w-3.5 h-3.5 flex-shrink-0"
                 fill="none"
@@ -65,6 +86,22 @@ export function Header({
 
         {/* Actions */}
         <div className="flex items-center gap-2">
+          {onSelectModel && models && models.length > 0 && currentModel && (
+            <select
+              value={currentModel}
+              onChange={(e) => onSelectModel(e.target.value)}
+              disabled={modelLocked}
+              className="max-w-[140px] px-2 py-1.5 text-xs bg-white/15 text-white rounded-lg border-none outline-none cursor-pointer disabled:opacity-50"
+              title="Model"
+            >
+              {models.map((m) => (
+                <option key={m.model} value={m.model} className="text-gray-900">
+                  {m.available ? m.model : `${m.model} (quota)`}
+                </option>
+              ))}
+            </select>
+          )}
+
           {onToggleFiles && (
             <button
               onClick={onToggleFiles}
@@ -91,6 +128,32 @@ export function Header({
             </button>
           )}
 
+          {onToggleMcp && (
+            <button
+              onClick={onToggleMcp}
+              className={`p-2.5 rounded-xl transition-all duration-200 ${
+                showMcp
+                  ? 'bg-white/25 shadow-inner'
+                  : 'hover:bg-white/15 active:bg-white/25'
+              }`}
+              title="MCP servers"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={1.5}
+                  d="M5 12h14M5 12a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v4a2 2 0 01-2 2M5 12a2 2 0 00-2 2v4a2 2 0 002 2h14a2 2 0 002-2v-4a2 2 0 00-2-2m-2-4h.01M17 16h.01"
+                />
+              </svg>
+            </button>
+          )}
+
           {/* Connection status */}
           <div
             className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium ${
@@ -17,25 +17,40 @@ interface ProjectRoot {
 interface Project {
   name: string;
   path: string;
+  access: 'read' | 'write';
+}
+
+interface SavedSession {
+  id: string;
+  projectName: string;
+  title: string;
+  model: string;
+  updatedAt: string;
+  active: boolean;
 }
 
 interface ProjectSelectorProps {
   onSelect: (path: string) => void;
+  onResume: (sessionId: string) => void;
   currentPath: string | null;
 }
 
-export function ProjectSelector({ onSelect }: ProjectSelectorProps) {
+const MAX_RECENT_SESSIONS = 5;
+
+export function ProjectSelector({ onSelect, onResume }: ProjectSelectorProps) {
   const [roots, setRoots] = useState<ProjectRoot[]>([]);
   const [allRoots, setAllRoots] = useState<ProjectRoot[]>([]); // Include failed ones for debugging
   const [selectedRoot, setSelectedRoot] = useState<string | null>(null);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [sessions, setSessions] = useState<SavedSession[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingProjects, setIsLoadingProjects] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Load available roots on mount
+  // Load available roots and saved sessions on mount
   useEffect(() => {
     void loadRoots();
+    void loadSessions();
   }, []);
 
   // Load projects when root is selected
@@ -69,6 +84,18 @@ export function ProjectSelector({ onSelect }: ProjectSelectorProps) {
     }
   };
 
+  const loadSessions = async () => {
+    try {
+      const response = await fetch('/api/sessions', {
+        headers: getAuthHeaders(),
+      });
+      const data = await response.json();
+      setSessions((data.sessions || []).slice(0, MAX_RECENT_SESSIONS));
+    } catch {
+      // Recent sessions are optional, the project list still works
+    }
+  };
+
   const loadProjects = async (rootPath: string) => {
     try {
       setIsLoadingProjects(true);
@@ -88,6 +115,15 @@ export function ProjectSelector({ onSelect }: ProjectSelectorProps) {
     }
   };
 
+  const handleResume = async (sessionId: string) => {
+    setIsLoading(true);
+    try {
+      await onResume(sessionId);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSelectProject = async (projectPath: string) => {
     setIsLoading(true);
     try {
@@ -185,6 +221,38 @@ export function ProjectSelector({ onSelect }: ProjectSelectorProps) {
 
       {/* Project list */}
       <div className="flex-1 overflow-y-auto p-4">
+        {/* Recent conversations */}
+        {sessions.length > 0 && (
+          <div className="mb-6">
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+              Recent conversations
+            </div>
+            <div className="grid gap-2">
+              {sessions.map((session) => (
+                <button
+                  key={session.id}
+                  onClick={() => handleResume(session.id)}
+                  disabled={isLoading}
+                  className="w-full flex items-center gap-3 px-4 py-3 bg-white rounded-xl border border-gray-200 hover:border-primary-300 hover:bg-primary-50 transition text-left disabled:opacity-50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 truncate">
+                      {session.title || 'Untitled conversation'}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {session.projectName} · {session.model} ·{' '}
+                      {new Date(session.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  {session.active && (
+                    <span className="w-2 h-2 rounded-full bg-emerald-400 flex-shrink-0" />
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {isLoadingProjects ? (
           <div className="flex items-center justify-center py-8">
             <div className="text-gray-500">Loading projects...</div>
@@ -220,6 +288,11 @@ export function ProjectSelector({ onSelect }: ProjectSelectorProps) {
                 <div className="flex-1 min-w-0">
                   <div className="font-medium text-gray-900 truncate">
                     {project.name}
+                    {project.access === 'read' && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs font-normal text-amber-700 bg-amber-100 rounded">
+                        Read-only
+                      </span>
+                    )}
                   </div>
                   <div className="text-xs text-gray-500 truncate">
                     {project.path}
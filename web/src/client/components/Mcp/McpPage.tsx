@@ -0,0 +1,268 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState } from 'react';
+import {
+  useMcp,
+  type McpServer,
+  type McpServerSettings,
+  type McpTransport,
+} from '../../hooks/useMcp';
+
+interface McpPageProps {
+  sessionId: string | null;
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  connected: 'bg-emerald-100 text-emerald-700',
+  connecting: 'bg-amber-100 text-amber-700',
+  disconnecting: 'bg-amber-100 text-amber-700',
+  disconnected: 'bg-red-100 text-red-700',
+};
+
+const TRANSPORT_LABELS: Record<McpTransport, string> = {
+  stdio: 'stdio',
+  sse: 'SSE',
+  http: 'HTTP',
+};
+
+function endpointOf(server: McpServer): string {
+  const { command, args, url, httpUrl } = server.settings;
+  if (server.transport === 'stdio') {
+    return [command, ...(args ?? [])].join(' ');
+  }
+  return (server.transport === 'http' ? httpUrl : url) ?? '';
+}
+
+function ServerCard({
+  server,
+  readOnly,
+  onRestart,
+  onRemove,
+}: {
+  server: McpServer;
+  readOnly?: boolean;
+  onRestart: () => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold text-gray-900">{server.name}</span>
+            <span className="px-1.5 py-0.5 text-[10px] bg-gray-100 text-gray-600 rounded">
+              {TRANSPORT_LABELS[server.transport]}
+            </span>
+            <span
+              className={`px-1.5 py-0.5 text-[10px] rounded ${
+                STATUS_STYLES[server.status] ?? 'bg-gray-100 text-gray-500'
+              }`}
+            >
+              {server.status}
+            </span>
+          </div>
+          <div className="mt-1 text-xs text-gray-500 font-mono break-all">
+            {endpointOf(server)}
+          </div>
+          {server.settings.description && (
+            <div className="mt-1 text-sm text-gray-600">
+              {server.settings.description}
+            </div>
+          )}
+        </div>
+        {!readOnly && (
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={onRestart}
+              className="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded-lg"
+            >
+              Restart
+            </button>
+            <button
+              onClick={onRemove}
+              className="px-3 py-1 text-xs text-red-600 bg-red-50 hover:bg-red-100 rounded-lg"
+            >
+              Remove
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="mt-3 flex flex-wrap gap-1">
+        {server.tools.length > 0 ? (
+          server.tools.map((tool) => (
+            <span
+              key={tool}
+              className="px-2 py-0.5 text-xs font-mono bg-blue-50 text-blue-700 rounded"
+            >
+              {tool}
+            </span>
+          ))
+        ) : (
+          <span className="text-xs text-gray-400">No tools discovered</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AddServerForm({
+  onAdd,
+}: {
+  onAdd: (name: string, server: McpServerSettings) => Promise<string | null>;
+}) {
+  const [name, setName] = useState('');
+  const [transport, setTransport] = useState<McpTransport>('stdio');
+  const [endpoint, setEndpoint] = useState('');
+  const [args, setArgs] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const server: McpServerSettings =
+      transport === 'stdio'
+        ? {
+            command: endpoint.trim(),
+            args: args.split(/\s+/).filter(Boolean),
+          }
+        : transport === 'sse'
+          ? { url: endpoint.trim() }
+          : { httpUrl: endpoint.trim() };
+
+    setSaving(true);
+    const failure = await onAdd(name.trim(), server);
+    setSaving(false);
+    setError(failure);
+    if (!failure) {
+      setName('');
+      setEndpoint('');
+      setArgs('');
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white border border-gray-200 rounded-xl p-4 space-y-3"
+    >
+      <div className="font-semibold text-gray-900">Add server</div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-lg outline-none focus:border-blue-400"
+          required
+        />
+        <select
+          value={transport}
+          onChange={(e) => setTransport(e.target.value as McpTransport)}
+          className="px-3 py-2 text-sm border border-gray-200 rounded-lg outline-none"
+        >
+          <option value="stdio">stdio</option>
+          <option value="sse">SSE</option>
+          <option value="http">HTTP</option>
+        </select>
+      </div>
+      <input
+        value={endpoint}
+        onChange={(e) => setEndpoint(e.target.value)}
+        placeholder={transport === 'stdio' ? 'Command' : 'URL'}
+        className="w-full px-3 py-2 text-sm font-mono border border-gray-200 rounded-lg outline-none focus:border-blue-400"
+        required
+      />
+      {transport === 'stdio' && (
+        <input
+          value={args}
+          onChange={(e) => setArgs(e.target.value)}
+          placeholder="Arguments (space separated)"
+          className="w-full px-3 py-2 text-sm font-mono border border-gray-200 rounded-lg outline-none focus:border-blue-400"
+        />
+      )}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      <button
+        type="submit"
+        disabled={saving}
+        className="px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+      >
+        {saving ? 'Connecting...' : 'Add'}
+      </button>
+    </form>
+  );
+}
+
+export function McpPage({ sessionId, readOnly, onClose }: McpPageProps) {
+  const { servers, loading, error, addServer, removeServer, restartServer } =
+    useMcp(sessionId);
+
+  const handleRestart = async (name: string) => {
+    const failure = await restartServer(name);
+    if (failure) alert(failure);
+  };
+
+  const handleRemove = async (name: string) => {
+    if (!confirm(`Remove MCP server "${name}"?`)) return;
+    const failure = await removeServer(name);
+    if (failure) alert(failure);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-50">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 bg-white">
+        <div>
+          <div className="font-semibold text-gray-900">MCP Servers</div>
+          <div className="text-xs text-gray-500">.gemini/settings.json</div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 hover:bg-gray-100 rounded-lg"
+          title="Close"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
+          </svg>
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 max-w-3xl w-full mx-auto">
+        {readOnly && (
+          <div className="text-sm text-gray-600 bg-gray-100 rounded-lg px-3 py-2">
+            MCP servers don't run in read-only sessions.
+          </div>
+        )}
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        {loading && servers.length === 0 ? (
+          <div className="text-sm text-gray-500">Loading...</div>
+        ) : servers.length === 0 ? (
+          <div className="text-sm text-gray-500">No MCP servers configured</div>
+        ) : (
+          servers.map((server) => (
+            <ServerCard
+              key={server.name}
+              server={server}
+              readOnly={readOnly}
+              onRestart={() => void handleRestart(server.name)}
+              onRemove={() => void handleRemove(server.name)}
+            />
+          ))
+        )}
+        {!readOnly && <AddServerForm onAdd={addServer} />}
+      </div>
+    </div>
+  );
+}
@@ -4,37 +4,149 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { useEffect, useState } from 'react';
+import { DiffViewer } from '../Diff';
+import type {
+  ConfirmOptions,
+  ConfirmationDetails,
+  ConfirmationOutcome,
+  PendingConfirmation,
+  RiskLevel,
+} from '../../hooks/useChat';
+
 interface ToolConfirmModalProps {
+  confirmations: PendingConfirmation[]; // In the order asked
+  onAnswer: (
+    callId: string,
+    outcome: ConfirmationOutcome,
+    options?: ConfirmOptions,
+  ) => void;
+}
+
+interface ConfirmationItemProps {
   toolName: string;
   args: Record<string, unknown>;
-  details: unknown;
-  onConfirm: () => void;
-  onCancel: () => void;
+  details: ConfirmationDetails;
+  hidden: boolean; // Kept mounted so changes survive switching calls
+  onAnswer: (outcome: ConfirmationOutcome, options?: ConfirmOptions) => void;
+  onModifiedChange: (modified: boolean) => void;
+}
+
+// Servers that predate the outcome list only take a yes or no
+const DEFAULT_OUTCOMES: ConfirmationOutcome[] = ['proceed_once', 'cancel'];
+
+const RISK_STYLES: Record<
+  RiskLevel,
+  { icon: string; badge: string; button: string }
+> = {
+  low: {
+    icon: 'bg-blue-100 text-blue-600',
+    badge: 'bg-gray-100 text-gray-700',
+    button: 'bg-primary-600 hover:bg-primary-700',
+  },
+  medium: {
+    icon: 'bg-yellow-100 text-yellow-600',
+    badge: 'bg-yellow-50 text-yellow-800 border border-yellow-200',
+    button: 'bg-yellow-500 hover:bg-yellow-600',
+  },
+  high: {
+    icon: 'bg-red-100 text-red-600',
+    badge: 'bg-red-50 text-red-800 border border-red-200',
+    button: 'bg-red-600 hover:bg-red-700',
+  },
+};
+
+const RISK_LABELS: Record<RiskLevel, string> = {
+  low: 'Low risk',
+  medium: 'Medium risk',
+  high: 'High risk',
+};
+
+const RISK_DOTS: Record<RiskLevel, string> = {
+  low: 'bg-blue-400',
+  medium: 'bg-yellow-400',
+  high: 'bg-red-500',
+};
+
+// Rated by the server; older servers don't, so assume some risk
+function riskOf(details: ConfirmationDetails) {
+  return details.risk ?? { level: 'medium' as const, reasons: [] };
 }
 
+// What a call is about, for the list of a batch
+function summaryOf({ toolName, details }: PendingConfirmation): string {
+  if (details.type === 'edit') {
+    return details.filePath || details.fileName || toolName;
+  }
+  if (details.type === 'exec') {
+    return details.command || toolName;
+  }
+  return toolName;
+}
+
+/**
+ * Calls waiting for approval. Several are reviewed as a batch: pick a
+ * call from the list to answer it on its own, or answer all at once.
+ */
 export function ToolConfirmModal({
-  toolName,
-  args,
-  details,
-  onConfirm,
-  onCancel,
+  confirmations,
+  onAnswer,
 }: ToolConfirmModalProps) {
-  // Determine if this is a potentially dangerous operation
-  const isDangerous = ['shell', 'write_file', 'edit'].includes(toolName);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Answered calls leave the list; fall back to the oldest one left
+  const selected =
+    confirmations.find((c) => c.callId === selectedId) ?? confirmations[0];
+  const risk = riskOf(selected.details);
+  const isDangerous = risk.level !== 'low';
+  const styles = RISK_STYLES[risk.level];
+  const wide = selected.details.type === 'edit' && !!selected.details.fileDiff;
+  // Calls whose proposal the user has changed
+  const [modifiedIds, setModifiedIds] = useState<Set<string>>(new Set());
+  const setModified = (callId: string, modified: boolean) =>
+    setModifiedIds((prev) => {
+      if (prev.has(callId) === modified) {
+        return prev;
+      }
+      const next = new Set(prev);
+      if (modified) {
+        next.add(callId);
+      } else {
+        next.delete(callId);
+      }
+      return next;
+    });
+
+  // Every call as proposed; modifications are made one call at a time
+  const answerAll = (outcome: ConfirmationOutcome) => {
+    for (const confirmation of confirmations) {
+      onAnswer(confirmation.callId, outcome);
+    }
+  };
+  // Approving all would drop the user's changes, or wave through calls
+  // that deserve a look of their own
+  const approveAllBlocker = confirmations.some((c) =>
+    modifiedIds.has(c.callId),
+  )
+    ? 'Some calls are modified: approve them one at a time'
+    : confirmations.some((c) => riskOf(c.details).level === 'high')
+      ? 'Some calls are high risk: review them one at a time'
+      : null;
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50">
-      <div className="bg-white w-full sm:max-w-lg sm:rounded-2xl rounded-t-2xl shadow-xl max-h-[80vh] flex flex-col safe-area-bottom">
+      <div
+        className={`bg-white w-full ${
+          wide ? 'sm:max-w-4xl' : 'sm:max-w-lg'
+        } sm:rounded-2xl rounded-t-2xl shadow-xl max-h-[80vh] flex flex-col safe-area-bottom`}
+      >
         {/* Header */}
         <div className="px-4 py-3 border-b border-gray-200 flex items-center gap-3">
           <div
-            className={`w-10 h-10 rounded-full flex items-center justify-center ${
-              isDangerous ? 'bg-yellow-100' : 'bg-blue-100'
-            }`}
+            className={`w-10 h-10 rounded-full flex items-center justify-center ${styles.icon}`}
           >
             {isDangerous ? (
               <svg
-                className="w-5 h-5 text-yellow-600"
+                className="w-5 h-5"
                 fill="none"
                 stroke="currentColor"
                 viewBox="0 0 24 24"
@@ -48,7 +160,7 @@ export function ToolConfirmModal({
               </svg>
             ) : (
               <svg
-                className="w-5 h-5 text-blue-600"
+                className="w-5 h-5"
                 fill="none"
                 stroke="currentColor"
                 viewBox="0 0 24 24"
@@ -72,64 +184,359 @@ export function ToolConfirmModal({
           </div>
         </div>
 
-        {/* Content */}
-        <div className="flex-1 overflow-y-auto p-4 space-y-4">
-          {/* Tool name */}
-          <div>
-            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
-              Tool
+        {/* Batch */}
+        {confirmations.length > 1 && (
+          <div className="px-4 py-2 border-b border-gray-200 space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="flex-1 text-gray-600">
+                {confirmations.length} tool calls waiting
+              </span>
+              <button
+                onClick={() => answerAll('cancel')}
+                className="px-3 py-1 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+              >
+                Reject all
+              </button>
+              <button
+                onClick={() => answerAll('proceed_once')}
+                disabled={!!approveAllBlocker}
+                title={approveAllBlocker ?? undefined}
+                className="px-3 py-1 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition disabled:opacity-50 disabled:hover:bg-primary-600"
+              >
+                Approve all
+              </button>
             </div>
-            <div className="font-mono text-sm bg-gray-100 px-3 py-2 rounded-lg">
-              {toolName}
+            <div className="flex flex-col gap-1 max-h-32 overflow-y-auto">
+              {confirmations.map((confirmation, i) => (
+                <button
+                  key={confirmation.callId}
+                  onClick={() => setSelectedId(confirmation.callId)}
+                  className={`flex items-center gap-2 px-2 py-1 text-left text-xs rounded-lg ${
+                    confirmation === selected
+                      ? 'bg-gray-800 text-white'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  <span
+                    className={`w-2 h-2 rounded-full shrink-0 ${
+                      RISK_DOTS[riskOf(confirmation.details).level]
+                    }`}
+                  />
+                  <span className="shrink-0 tabular-nums">{i + 1}.</span>
+                  <span className="shrink-0 font-mono">
+                    {confirmation.toolName}
+                  </span>
+                  <span className="truncate opacity-75">
+                    {summaryOf(confirmation)}
+                  </span>
+                </button>
+              ))}
             </div>
           </div>
+        )}
+
+        {confirmations.map((confirmation) => (
+          <ConfirmationItem
+            key={confirmation.callId}
+            toolName={confirmation.toolName}
+            args={confirmation.args}
+            details={confirmation.details}
+            hidden={confirmation !== selected}
+            onAnswer={(outcome, options) =>
+              onAnswer(confirmation.callId, outcome, options)
+            }
+            onModifiedChange={(modified) =>
+              setModified(confirmation.callId, modified)
+            }
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Review of one call, with its own answers
+function ConfirmationItem({
+  toolName,
+  args,
+  details,
+  hidden,
+  onAnswer,
+  onModifiedChange,
+}: ConfirmationItemProps) {
+  const risk = riskOf(details);
+  const isDangerous = risk.level !== 'low';
+  const styles = RISK_STYLES[risk.level];
+  const outcomes = details.outcomes ?? DEFAULT_OUTCOMES;
+  // Shell commands an "always" answer covers; narrowed by the user
+  const [commandPrefix, setCommandPrefix] = useState(details.command ?? '');
+
+  const alwaysLabel = (outcome: ConfirmationOutcome): string | null => {
+    switch (outcome) {
+      case 'proceed_always':
+        return details.type === 'exec'
+          ? 'Always allow commands starting with this'
+          : `Always allow ${toolName}`;
+      case 'proceed_always_tool':
+        return `Always allow ${toolName}`;
+      case 'proceed_always_server':
+        return `Always allow every tool of ${details.serverName}`;
+      default:
+        return null;
+    }
+  };
+  const alwaysOutcomes = outcomes.filter((outcome) => alwaysLabel(outcome));
+  // Root commands of a shell call to run without asking from now on
+  const [allowRoots, setAllowRoots] = useState<string[]>([]);
+  const toggleRoot = (root: string) =>
+    setAllowRoots((prev) =>
+      prev.includes(root) ? prev.filter((r) => r !== root) : [...prev, root],
+    );
+  const shell = details.type === 'exec' && details.roots ? details : null;
+
+  // Edits are reviewed as a diff rather than as their raw arguments
+  const diff =
+    details.type === 'edit' && details.fileDiff !== undefined
+      ? details.fileDiff
+      : null;
+
+  // The user's version of the proposed content, once they start editing
+  const [editedContent, setEditedContent] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const canModify = diff !== null && details.newContent !== undefined;
+  const modified =
+    editedContent !== null && editedContent !== details.newContent;
+  useEffect(() => onModifiedChange(modified), [modified, onModifiedChange]);
+
+  const answer = (outcome: ConfirmationOutcome) =>
+    onAnswer(outcome, {
+      command: details.type === 'exec' ? commandPrefix : undefined,
+      newContent:
+        modified && outcome !== 'cancel'
+          ? (editedContent ?? undefined)
+          : undefined,
+      allowRoots:
+        outcome === 'proceed_once' && allowRoots.length > 0
+          ? allowRoots
+          : undefined,
+    });
+  // The server can't write an empty version
+  const approveDisabled = modified && !editedContent;
+
+  return (
+    <div className={hidden ? 'hidden' : 'flex-1 flex flex-col min-h-0'}>
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Tool name */}
+        <div>
+          <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+            Tool
+          </div>
+          <div className="font-mono text-sm bg-gray-100 px-3 py-2 rounded-lg">
+            {toolName}
+          </div>
+        </div>
 
-          {/* Arguments */}
-          {Object.keys(args).length > 0 && (
+        {/* Risk */}
+        {details.risk && (
+          <div className={`px-3 py-2 rounded-lg text-sm ${styles.badge}`}>
+            <div className="font-medium">{RISK_LABELS[risk.level]}</div>
+            {risk.reasons.length > 0 && (
+              <ul className="mt-1 list-disc list-inside text-xs space-y-0.5">
+                {risk.reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* The parsed shell command */}
+        {shell && (
+          <div className="space-y-3">
             <div>
               <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
-                Arguments
+                Command
               </div>
-              <pre className="font-mono text-xs bg-gray-100 px-3 py-2 rounded-lg overflow-x-auto whitespace-pre-wrap">
-                {JSON.stringify(args, null, 2)}
+              <pre className="font-mono text-xs bg-gray-800 text-gray-100 px-3 py-2 rounded-lg overflow-x-auto whitespace-pre-wrap max-h-48">
+                {shell.command}
               </pre>
+              {(shell.commands?.length ?? 0) > 1 && (
+                <ol className="mt-2 space-y-1 text-xs font-mono text-gray-700 list-decimal list-inside">
+                  {shell.commands?.map((command, i) => (
+                    <li key={i}>{command}</li>
+                  ))}
+                </ol>
+              )}
             </div>
-          )}
-
-          {/* Details (e.g., diff preview for edit) */}
-          {details && (
             <div>
               <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
-                Details
+                Working directory
+              </div>
+              <div className="font-mono text-sm bg-gray-100 px-3 py-2 rounded-lg">
+                {shell.cwd === '.' ? '(project root)' : shell.cwd}
               </div>
-              <pre className="font-mono text-xs bg-gray-800 text-gray-100 px-3 py-2 rounded-lg overflow-x-auto whitespace-pre-wrap max-h-48">
-                {typeof details === 'string'
-                  ? details
-                  : JSON.stringify(details, null, 2)}
-              </pre>
             </div>
-          )}
-        </div>
+            {(shell.roots?.length ?? 0) > 0 && (
+              <div>
+                <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+                  Allow for this session
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {shell.roots?.map((root) => (
+                    <button
+                      key={root}
+                      onClick={() => toggleRoot(root)}
+                      className={`px-2.5 py-1 font-mono text-xs rounded-full border transition ${
+                        allowRoots.includes(root)
+                          ? 'bg-primary-600 text-white border-primary-600'
+                          : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      {allowRoots.includes(root) ? '✓ ' : ''}
+                      {root}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Selected commands run without asking until the session
+                  ends, unless a command is high risk.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
 
-        {/* Actions */}
-        <div className="px-4 py-3 border-t border-gray-200 flex gap-3">
-          <button
-            onClick={onCancel}
-            className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl font-medium hover:bg-gray-200 transition"
-          >
-            Cancel
-          </button>
-          <button
-            onClick={onConfirm}
-            className={`flex-1 px-4 py-3 rounded-xl font-medium transition ${
-              isDangerous
-                ? 'bg-yellow-500 text-white hover:bg-yellow-600'
-                : 'bg-primary-600 text-white hover:bg-primary-700'
-            }`}
-          >
-            {isDangerous ? 'Allow' : 'Confirm'}
-          </button>
-        </div>
+        {/* Review or modify the proposed change */}
+        {canModify && (
+          <div className="flex items-center gap-2 text-sm">
+            {(['Review', 'Modify'] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setEditing(tab === 'Modify')}
+                className={`px-3 py-1 rounded-lg ${
+                  editing === (tab === 'Modify')
+                    ? 'bg-gray-800 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {tab}
+              </button>
+            ))}
+            {modified && (
+              <>
+                <span className="px-1.5 py-0.5 text-xs bg-amber-100 text-amber-800 rounded">
+                  Modified
+                </span>
+                <button
+                  onClick={() => setEditedContent(null)}
+                  className="text-xs text-gray-500 hover:text-gray-800 underline"
+                >
+                  Reset
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        {diff !== null && !editing && (
+          <DiffViewer
+            fileName={details.filePath || details.fileName || ''}
+            fileDiff={diff}
+            isNewFile={details.originalContent === null}
+          />
+        )}
+        {canModify && editing && (
+          <div className="space-y-1">
+            <textarea
+              value={editedContent ?? details.newContent}
+              onChange={(e) => setEditedContent(e.target.value)}
+              spellCheck={false}
+              className="w-full h-[50vh] font-mono text-xs p-3 border border-gray-200 rounded-lg outline-none focus:border-primary-500 resize-none"
+            />
+            <p className="text-xs text-gray-500">
+              Approving writes this version of{' '}
+              {details.filePath || details.fileName} instead of the
+              proposal, and tells the model you changed it.
+            </p>
+          </div>
+        )}
+
+        {/* Arguments */}
+        {diff === null && !shell && Object.keys(args).length > 0 && (
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+              Arguments
+            </div>
+            <pre className="font-mono text-xs bg-gray-100 px-3 py-2 rounded-lg overflow-x-auto whitespace-pre-wrap">
+              {JSON.stringify(args, null, 2)}
+            </pre>
+          </div>
+        )}
+
+        {/* Details */}
+        {diff === null && !shell && details.description && (
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+              Details
+            </div>
+            <pre className="font-mono text-xs bg-gray-800 text-gray-100 px-3 py-2 rounded-lg overflow-x-auto whitespace-pre-wrap max-h-48">
+              {details.description}
+            </pre>
+          </div>
+        )}
+
+        {/* Answers saved to the project's policy */}
+        {alwaysOutcomes.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+              Remember for this project
+            </div>
+            {details.type === 'exec' && (
+              <input
+                value={commandPrefix}
+                onChange={(e) => setCommandPrefix(e.target.value)}
+                className="w-full font-mono text-sm px-3 py-2 border border-gray-200 rounded-lg outline-none focus:border-primary-500"
+                title="Commands starting with this are allowed"
+              />
+            )}
+            {alwaysOutcomes.map((outcome) => (
+              <button
+                key={outcome}
+                onClick={() => answer(outcome)}
+                disabled={
+                  approveDisabled ||
+                  (details.type === 'exec' && !commandPrefix.trim())
+                }
+                className="w-full px-4 py-2 text-sm text-left bg-gray-50 text-gray-700 rounded-xl border border-gray-200 hover:bg-gray-100 transition disabled:opacity-50"
+              >
+                {alwaysLabel(outcome)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="px-4 py-3 border-t border-gray-200 flex gap-3">
+        <button
+          onClick={() => answer('cancel')}
+          className="flex-1 px-4 py-3 bg-gray-100 text-gray-700 rounded-xl font-medium hover:bg-gray-200 transition"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => answer('proceed_once')}
+          disabled={approveDisabled}
+          className={`flex-1 px-4 py-3 rounded-xl font-medium text-white transition disabled:opacity-50 ${styles.button}`}
+        >
+          {modified
+            ? 'Allow with changes'
+            : allowRoots.length > 0
+              ? 'Allow and remember'
+              : isDangerous
+                ? 'Allow'
+                : 'Confirm'}
+        </button>
       </div>
     </div>
   );
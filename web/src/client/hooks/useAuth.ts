@@ -7,10 +7,91 @@
 import { useState, useEffect, useCallback } from 'react';
 
 const TOKEN_KEY = 'gemini_web_token';
+const EXPIRES_KEY = 'gemini_web_token_expires';
+
+// Refresh this long before the token expires
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Never schedule refreshes closer together than this
+const MIN_REFRESH_DELAY_MS = 10 * 1000;
+
+const UNAUTHORIZED_EVENT = 'gemini-web:unauthorized';
+
+function storeToken(token: string, expiresAt: number) {
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(EXPIRES_KEY, String(expiresAt));
+}
+
+function clearToken() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(EXPIRES_KEY);
+}
+
+function getStoredExpiry(): number | null {
+  const value = localStorage.getItem(EXPIRES_KEY);
+  return value ? Number(value) : null;
+}
+
+// Any API call answered with 401 means our token is no longer valid.
+// Installed once, so components can keep using plain fetch().
+let fetchPatched = false;
+function installUnauthorizedHandler() {
+  if (fetchPatched) return;
+  fetchPatched = true;
+
+  const originalFetch = window.fetch.bind(window);
+  window.fetch = async (input, init) => {
+    const response = await originalFetch(input, init);
+    const url =
+      typeof input === 'string'
+        ? input
+        : input instanceof URL
+          ? input.href
+          : input.url;
+    if (
+      response.status === 401 &&
+      url.includes('/api/') &&
+      !url.includes('/api/auth/login')
+    ) {
+      window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+    }
+    return response;
+  };
+}
 
 export function useAuth() {
   const [token, setToken] = useState<string | null>(() => localStorage.getItem(TOKEN_KEY));
+  const [expiresAt, setExpiresAt] = useState<number | null>(getStoredExpiry);
   const [checking, setChecking] = useState(true);
+  const [refreshAttempt, setRefreshAttempt] = useState(0);
+
+  const handleUnauthorized = useCallback(() => {
+    clearToken();
+    setToken(null);
+    setExpiresAt(null);
+  }, []);
+
+  // Send the user back to the login page on any 401
+  useEffect(() => {
+    installUnauthorizedHandler();
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => {
+      window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    };
+  }, [handleUnauthorized]);
+
+  // Tabs share the stored token: follow refreshes, logins and logouts made
+  // in the others (the change reschedules the refresh below)
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== null && e.key !== TOKEN_KEY && e.key !== EXPIRES_KEY) {
+        return;
+      }
+      setToken(localStorage.getItem(TOKEN_KEY));
+      setExpiresAt(getStoredExpiry());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
 
   // Check if token is still valid on mount
   useEffect(() => {
@@ -28,8 +109,10 @@ export function useAuth() {
         const data = await response.json();
 
         if (!data.authenticated) {
-          localStorage.removeItem(TOKEN_KEY);
-          setToken(null);
+          handleUnauthorized();
+        } else if (data.expiresAt) {
+          localStorage.setItem(EXPIRES_KEY, String(data.expiresAt));
+          setExpiresAt(data.expiresAt);
         }
       } catch {
         // Keep token if we can't check (offline, etc)
@@ -39,11 +122,47 @@ export function useAuth() {
     };
 
     void checkAuth();
-  }, []);
+  }, [handleUnauthorized]);
+
+  // Silently refresh the token shortly before it expires
+  useEffect(() => {
+    if (!token || !expiresAt) return;
+
+    const delay = Math.max(
+      expiresAt - Date.now() - REFRESH_MARGIN_MS,
+      MIN_REFRESH_DELAY_MS,
+    );
+    const timer = setTimeout(async () => {
+      // Another tab may have refreshed it already, which retires ours
+      const stored = localStorage.getItem(TOKEN_KEY);
+      if (stored !== token) {
+        setToken(stored);
+        setExpiresAt(getStoredExpiry());
+        return;
+      }
+      try {
+        const response = await fetch('/api/auth/refresh', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!response.ok) return; // 401 is handled by the fetch hook
+        const data = await response.json();
+        storeToken(data.token, data.expiresAt);
+        setToken(data.token);
+        setExpiresAt(data.expiresAt);
+      } catch {
+        // Offline: schedule another attempt
+        setRefreshAttempt((n) => n + 1);
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [token, expiresAt, refreshAttempt]);
 
-  const login = useCallback((newToken: string) => {
-    localStorage.setItem(TOKEN_KEY, newToken);
+  const login = useCallback((newToken: string, newExpiresAt: number) => {
+    storeToken(newToken, newExpiresAt);
     setToken(newToken);
+    setExpiresAt(newExpiresAt);
   }, []);
 
   const logout = useCallback(async () => {
@@ -58,8 +177,9 @@ export function useAuth() {
         // Ignore errors
       }
     }
-    localStorage.removeItem(TOKEN_KEY);
+    clearToken();
     setToken(null);
+    setExpiresAt(null);
   }, []);
 
   return {
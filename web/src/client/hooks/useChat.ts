@@ -5,52 +5,197 @@
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
+import { modelSwitchedNotice, type ModelSwitchReason } from '../i18n';
 
 export interface ChatMessage {
   id: string;
-  role: 'user' | 'assistant';
+  // system: notices from the web UI itself, never model output
+  role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
   toolCalls?: ToolCall[];
   isStreaming?: boolean;
+  usage?: TurnUsage[]; // Model requests behind an answer
+  command?: CommandOutput; // Result of a slash command
+}
+
+export interface TokenUsage {
+  prompt: number;
+  response: number;
+  cached: number;
+  thoughts: number;
+  total: number;
+}
+
+export interface TurnUsage extends TokenUsage {
+  model: string;
+  latencyMs: number;
+  finishReason: string | null;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  latencyMs: number;
+}
+
+export interface SessionStats {
+  model: string;
+  createdAt: string;
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+}
+
+export interface ToolInfo {
+  name: string;
+  displayName: string;
+  description: string;
+  parameters: unknown;
+  source: { type: 'builtin' } | { type: 'mcp'; server: string };
+  enabled: boolean;
+}
+
+export type CommandResult =
+  | { kind: 'help'; commands: Array<{ command: string; description: string }> }
+  | { kind: 'cleared' }
+  | {
+      kind: 'compressed';
+      compressed: boolean;
+      originalTokens: number;
+      newTokens: number;
+    }
+  | { kind: 'tools'; tools: ToolInfo[] }
+  | {
+      kind: 'memory';
+      action: 'show' | 'add' | 'refresh';
+      files: string[];
+      content: string;
+      projectFile: string;
+    }
+  | { kind: 'stats'; stats: SessionStats }
+  | { kind: 'error'; message: string };
+
+export interface CommandOutput {
+  command: string; // As typed
+  result: CommandResult;
 }
 
 export interface ToolCall {
-  id: string;
+  id: string; // The call's callId
   name: string;
   args: Record<string, unknown>;
   result?: unknown;
-  status: 'pending' | 'running' | 'completed' | 'cancelled' | 'confirm';
+  error?: string; // Why the call failed
+  status:
+    | 'pending'
+    | 'validating'
+    | 'confirm'
+    | 'scheduled'
+    | 'running'
+    | 'completed'
+    | 'error'
+    | 'cancelled';
+}
+
+// Card status for each step reported by tool_status events
+const STATUS_STEPS: Record<string, ToolCall['status']> = {
+  validating: 'validating',
+  scheduled: 'scheduled',
+  executing: 'running',
+  error: 'error',
+};
+
+// ToolConfirmationOutcome values of the core
+export type ConfirmationOutcome =
+  | 'proceed_once'
+  | 'proceed_always'
+  | 'proceed_always_server'
+  | 'proceed_always_tool'
+  | 'modify_with_editor'
+  | 'cancel';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface ConfirmationDetails {
+  type: string; // edit, exec, mcp or info
+  description: string;
+  outcomes?: ConfirmationOutcome[]; // Answers the server accepts
+  risk?: { level: RiskLevel; reasons: string[] };
+  // Shell commands
+  command?: string; // As asked about
+  commands?: string[]; // Each command of a chain or pipeline
+  roots?: string[]; // Programs run, which can be allowed for the session
+  cwd?: string; // Relative to the project
+  serverName?: string; // MCP server of the tool
+  // Edits and file writes
+  fileName?: string;
+  filePath?: string; // Relative to the project
+  fileDiff?: string; // Unified diff of the change
+  originalContent?: string | null; // Null for a new file
+  newContent?: string;
+  isModifying?: boolean;
+}
+
+export interface ConfirmOptions {
+  command?: string; // Narrows what a proceed_always shell approval covers
+  newContent?: string; // Replaces the proposed content of an edit
+  allowRoots?: string[]; // Root commands to run without asking from now on
 }
 
 export interface PendingConfirmation {
+  callId: string;
   toolName: string;
   args: Record<string, unknown>;
-  details: unknown;
+  details: ConfirmationDetails;
 }
 
 type SendMessageFn = (type: string, payload?: unknown) => void;
 type SubscribeFn = (
-  handler: (message: { type: string; payload?: unknown }) => void,
+  handler: (message: {
+    type: string;
+    sessionId?: string;
+    payload?: unknown;
+  }) => void,
 ) => () => void;
 
+interface HistoryPayload {
+  messages: Array<Omit<ChatMessage, 'timestamp'> & { timestamp: string }>;
+  busy?: boolean; // A run is in progress
+}
+
 interface StreamEvent {
   type: string;
   text?: string;
+  callId?: string;
   toolName?: string;
   args?: Record<string, unknown>;
+  status?: string;
+  error?: string;
   result?: unknown;
   details?: unknown;
   message?: string;
+  from?: string;
+  to?: string;
+  reason?: ModelSwitchReason;
+  turn?: TurnUsage;
+  command?: string;
 }
 
-export function useChat(wsSend: SendMessageFn, wsSubscribe: SubscribeFn) {
+export function useChat(
+  wsSend: SendMessageFn,
+  wsSubscribe: SubscribeFn,
+  sessionId: string | null,
+) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [pendingConfirmation, setPendingConfirmation] =
-    useState<PendingConfirmation | null>(null);
+  // Calls waiting for the user, in the order asked
+  const [pendingConfirmations, setPendingConfirmations] = useState<
+    PendingConfirmation[]
+  >([]);
   const currentMessageRef = useRef<string>('');
   const currentToolCallsRef = useRef<ToolCall[]>([]);
+  const currentUsageRef = useRef<TurnUsage[]>([]);
+  // A message was sent and neither its run nor its command has started
+  const awaitingEchoRef = useRef(false);
 
   const _updateCurrentMessage = useCallback(() => {
     setMessages((prev) => {
@@ -90,10 +235,46 @@ export function useChat(wsSend: SendMessageFn, wsSubscribe: SubscribeFn) {
 
   // Handle WebSocket messages via subscription
   useEffect(() => {
+    // The card of the event's call, added if its tool_call was missed
+    const toolCallOf = (event: StreamEvent): ToolCall => {
+      const existing = currentToolCallsRef.current.find(
+        (t) => t.id === event.callId,
+      );
+      if (existing) {
+        return existing;
+      }
+      const added: ToolCall = {
+        id: event.callId || `${Date.now()}-${event.toolName}`,
+        name: event.toolName || '',
+        args: {},
+        status: 'pending',
+      };
+      currentToolCallsRef.current.push(added);
+      return added;
+    };
+
     const handleStreamEvent = (event: StreamEvent) => {
       console.log('[useChat] Stream event:', event.type, event);
 
       switch (event.type) {
+        case 'user_message':
+          // Echo of a prompt (ours or from another tab): a new run starts
+          setIsLoading(true);
+          awaitingEchoRef.current = false;
+          currentMessageRef.current = '';
+          currentToolCallsRef.current = [];
+          currentUsageRef.current = [];
+          setMessages((prev) => [
+            ...prev.filter((m) => !m.isStreaming),
+            {
+              id: `user-${Date.now()}`,
+              role: 'user',
+              content: event.text || '',
+              timestamp: new Date(),
+            },
+          ]);
+          break;
+
         case 'content':
           currentMessageRef.current += event.text || '';
           console.log('[useChat] Content accumulated:', {
@@ -124,13 +305,8 @@ export function useChat(wsSend: SendMessageFn, wsSubscribe: SubscribeFn) {
           break;
 
         case 'tool_call': {
-          const toolCall: ToolCall = {
-            id: `${Date.now()}-${event.toolName}`,
-            name: event.toolName || '',
-            args: event.args || {},
-            status: 'running',
-          };
-          currentToolCallsRef.current.push(toolCall);
+          const toolCall = toolCallOf(event);
+          toolCall.args = event.args || {};
           setMessages((prev) => {
             const withoutCurrent = prev.filter((m) => !m.isStreaming);
             return [
@@ -149,30 +325,18 @@ export function useChat(wsSend: SendMessageFn, wsSubscribe: SubscribeFn) {
         }
 
         case 'tool_result': {
+          // A replayed confirmation request may already have been answered
+          setPendingConfirmations((prev) =>
+            prev.filter((c) => c.callId !== event.callId),
+          );
           console.log(
             '[useChat] tool_result received:',
             event.toolName,
             event.result,
           );
-          // Find tool by name (any status, as it might have been updated)
-          const lastTool = currentToolCallsRef.current.find(
-            (t) => t.name === event.toolName,
-          );
-          if (lastTool) {
-            lastTool.result = event.result;
-            lastTool.status = 'completed';
-            console.log('[useChat] Updated tool:', lastTool);
-          } else {
-            // Tool not found, create a new entry
-            console.log('[useChat] Tool not found, creating new entry');
-            currentToolCallsRef.current.push({
-              id: `${Date.now()}-${event.toolName}`,
-              name: event.toolName || '',
-              args: {},
-              result: event.result,
-              status: 'completed',
-            });
-          }
+          const completedTool = toolCallOf(event);
+          completedTool.result = event.result;
+          completedTool.status = 'completed';
           setMessages((prev) => {
             const withoutCurrent = prev.filter((m) => !m.isStreaming);
             return [
@@ -190,40 +354,139 @@ export function useChat(wsSend: SendMessageFn, wsSubscribe: SubscribeFn) {
           break;
         }
 
-        case 'tool_confirm_request':
-          setPendingConfirmation({
+        case 'tool_status': {
+          const step = STATUS_STEPS[event.status || ''];
+          if (!step) break;
+          const updatedTool = toolCallOf(event);
+          updatedTool.status = step;
+          updatedTool.error = event.error;
+          setMessages((prev) => {
+            const withoutCurrent = prev.filter((m) => !m.isStreaming);
+            return [
+              ...withoutCurrent,
+              {
+                id: 'streaming',
+                role: 'assistant' as const,
+                content: currentMessageRef.current,
+                timestamp: new Date(),
+                toolCalls: [...currentToolCallsRef.current],
+                isStreaming: true,
+              },
+            ];
+          });
+          break;
+        }
+
+        case 'tool_confirm_request': {
+          const confirmation: PendingConfirmation = {
+            callId: event.callId || '',
             toolName: event.toolName || '',
             args: event.args || {},
-            details: event.details,
+            details: event.details as ConfirmationDetails,
+          };
+          setPendingConfirmations((prev) => [
+            ...prev.filter((c) => c.callId !== confirmation.callId),
+            confirmation,
+          ]);
+          toolCallOf(event).status = 'confirm';
+          setMessages((prev) => {
+            const withoutCurrent = prev.filter((m) => !m.isStreaming);
+            return [
+              ...withoutCurrent,
+              {
+                id: 'streaming',
+                role: 'assistant' as const,
+                content: currentMessageRef.current,
+                timestamp: new Date(),
+                toolCalls: [...currentToolCallsRef.current],
+                isStreaming: true,
+              },
+            ];
           });
           break;
+        }
+
+        case 'tool_confirmed':
+          // The server took the answer (ours or another tab's)
+          setPendingConfirmations((prev) =>
+            prev.filter((c) => c.callId !== event.callId),
+          );
+          break;
 
         case 'tool_cancelled': {
-          const cancelledTool = currentToolCallsRef.current.find(
-            (t) => t.name === event.toolName && t.status === 'running',
+          setPendingConfirmations((prev) =>
+            prev.filter((c) => c.callId !== event.callId),
           );
-          if (cancelledTool) {
-            cancelledTool.status = 'cancelled';
-            setMessages((prev) => {
-              const withoutCurrent = prev.filter((m) => !m.isStreaming);
-              return [
-                ...withoutCurrent,
-                {
-                  id: 'streaming',
-                  role: 'assistant' as const,
-                  content: currentMessageRef.current,
-                  timestamp: new Date(),
-                  toolCalls: [...currentToolCallsRef.current],
-                  isStreaming: true,
-                },
-              ];
-            });
+          toolCallOf(event).status = 'cancelled';
+          setMessages((prev) => {
+            const withoutCurrent = prev.filter((m) => !m.isStreaming);
+            return [
+              ...withoutCurrent,
+              {
+                id: 'streaming',
+                role: 'assistant' as const,
+                content: currentMessageRef.current,
+                timestamp: new Date(),
+                toolCalls: [...currentToolCallsRef.current],
+                isStreaming: true,
+              },
+            ];
+          });
+          break;
+        }
+
+        case 'usage':
+          if (event.turn) {
+            currentUsageRef.current.push(event.turn);
           }
           break;
+
+        case 'command_result': {
+          // Commands only run between runs, and end with their result
+          setIsLoading(false);
+          awaitingEchoRef.current = false;
+          const result = event.result as CommandResult;
+          const notice: ChatMessage = {
+            id: `command-${Date.now()}`,
+            role: 'system',
+            content: '',
+            timestamp: new Date(),
+            command: { command: event.command || '', result },
+          };
+          // After /clear only the notice itself remains
+          setMessages((prev) =>
+            result.kind === 'cleared' ? [notice] : [...prev, notice],
+          );
+          break;
         }
 
+        case 'model_switched':
+          // Close off any partial answer so the notice sits between the
+          // output of the two models rather than inside either
+          setMessages((prev) => [
+            ...prev.map((m) =>
+              m.isStreaming
+                ? { ...m, id: `msg-${Date.now()}`, isStreaming: false }
+                : m,
+            ),
+            {
+              id: `system-${Date.now()}`,
+              role: 'system' as const,
+              content: modelSwitchedNotice(
+                event.from || '',
+                event.to || '',
+                event.reason || 'quota',
+              ),
+              timestamp: new Date(),
+            },
+          ]);
+          currentMessageRef.current = '';
+          currentToolCallsRef.current = [];
+          break;
+
         case 'error':
           setIsLoading(false);
+          setPendingConfirmations([]);
           setMessages((prev) => {
             const updated = prev.map((m) =>
               m.isStreaming
@@ -245,13 +508,16 @@ export function useChat(wsSend: SendMessageFn, wsSubscribe: SubscribeFn) {
           break;
 
         case 'finished':
-        case 'cancelled':
+        case 'cancelled': {
           console.log('[useChat] Finalizing message', {
             currentContent: currentMessageRef.current.substring(0, 100),
             currentContentLength: currentMessageRef.current.length,
             toolCallsCount: currentToolCallsRef.current.length,
           });
           setIsLoading(false);
+          setPendingConfirmations([]);
+          // Read now: the ref is cleared before the update below runs
+          const usage = [...currentUsageRef.current];
           setMessages((prev) => {
             console.log('[useChat] Before finalize, messages:', prev.map(m => ({
               id: m.id,
@@ -261,7 +527,12 @@ export function useChat(wsSend: SendMessageFn, wsSubscribe: SubscribeFn) {
             })));
             const result = prev.map((m) =>
               m.isStreaming
-                ? { ...m, id: `msg-${Date.now()}`, isStreaming: false }
+                ? {
+                    ...m,
+                    id: `msg-${Date.now()}`,
+                    isStreaming: false,
+                    usage: usage.length > 0 ? usage : undefined,
+                  }
                 : m,
             );
             console.log('[useChat] After finalize, messages:', result.map(m => ({
@@ -274,60 +545,112 @@ export function useChat(wsSend: SendMessageFn, wsSubscribe: SubscribeFn) {
           });
           currentMessageRef.current = '';
           currentToolCallsRef.current = [];
+          currentUsageRef.current = [];
           break;
+        }
 
         default:
           break;
       }
     };
 
+    const handleHistory = ({ messages: replayed, busy }: HistoryPayload) => {
+      console.log('[useChat] History replay:', replayed.length);
+      setMessages(
+        replayed.map((m) => ({ ...m, timestamp: new Date(m.timestamp) })),
+      );
+      // Events of a run still in progress follow the snapshot, unless they
+      // have been dropped: the run can still be cancelled then
+      setIsLoading(!!busy);
+      setPendingConfirmations([]);
+      currentMessageRef.current = '';
+      currentToolCallsRef.current = [];
+      currentUsageRef.current = [];
+    };
+
+    // A rejected request (e.g. an answer the server refused) leaves any run
+    // and its confirmations as they were, so they can still be answered.
+    // Only a message that never started is no longer busy.
+    const handleRequestError = (text: string | undefined) => {
+      if (awaitingEchoRef.current) {
+        awaitingEchoRef.current = false;
+        setIsLoading(false);
+      }
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: `error-${Date.now()}`,
+          role: 'assistant' as const,
+          content: `Error: ${text}`,
+          timestamp: new Date(),
+        },
+      ]);
+    };
+
     const unsubscribe = wsSubscribe((message) => {
+      // Request-level errors (e.g. chat rejected) are not tied to a session
+      if (message.type === 'error' && !message.sessionId) {
+        handleRequestError((message.payload as { message?: string })?.message);
+        return;
+      }
+      // Ignore events from sessions other than the one being viewed
+      if (message.sessionId !== sessionId) return;
       if (message.type === 'stream') {
         handleStreamEvent(message.payload as StreamEvent);
+      } else if (message.type === 'history') {
+        handleHistory(message.payload as HistoryPayload);
       }
     });
     return unsubscribe;
-  }, [wsSubscribe]);
+  }, [wsSubscribe, sessionId]);
+
+  // Start from a clean slate whenever another session is selected
+  useEffect(() => {
+    setMessages([]);
+    setIsLoading(false);
+    setPendingConfirmations([]);
+    awaitingEchoRef.current = false;
+    currentMessageRef.current = '';
+    currentToolCallsRef.current = [];
+    currentUsageRef.current = [];
+  }, [sessionId]);
 
   const sendMessage = useCallback(
     (content: string) => {
-      if (!content.trim() || isLoading) return;
-
-      // Add user message
-      const userMessage: ChatMessage = {
-        id: `user-${Date.now()}`,
-        role: 'user',
-        content,
-        timestamp: new Date(),
-      };
+      if (!content.trim() || isLoading || !sessionId) return;
 
-      setMessages((prev) => [...prev, userMessage]);
+      // The user message is added when the server echoes it back
+      // (user_message event), so every attached client sees the same order
       setIsLoading(true);
-      currentMessageRef.current = '';
-      currentToolCallsRef.current = [];
+      awaitingEchoRef.current = true;
 
       // Send via WebSocket
-      wsSend('chat', content);
+      wsSend('chat', { sessionId, message: content });
     },
-    [wsSend, isLoading],
+    [wsSend, isLoading, sessionId],
   );
 
   const confirmTool = useCallback(
-    (confirmed: boolean) => {
-      wsSend('confirm_tool', { confirmed });
-      setPendingConfirmation(null);
+    (
+      callId: string,
+      outcome: ConfirmationOutcome,
+      options: ConfirmOptions = {},
+    ) => {
+      // Kept until the server takes the answer (tool_confirmed): a refused
+      // one can be given again
+      wsSend('confirm_tool', { sessionId, callId, outcome, ...options });
     },
-    [wsSend],
+    [wsSend, sessionId],
   );
 
   const cancelRequest = useCallback(() => {
-    wsSend('cancel');
-  }, [wsSend]);
+    wsSend('cancel', { sessionId });
+  }, [wsSend, sessionId]);
 
   return {
     messages,
     isLoading,
-    pendingConfirmation,
+    pendingConfirmations,
     sendMessage,
     confirmTool,
     cancelRequest,
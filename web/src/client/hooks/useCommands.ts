@@ -0,0 +1,44 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect } from 'react';
+import { getAuthHeaders } from './useAuth';
+
+export interface SlashCommand {
+  command: string;
+  description: string;
+}
+
+/**
+ * Slash commands the server understands, for the input bar's suggestions
+ */
+export function useCommands() {
+  const [commands, setCommands] = useState<SlashCommand[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const response = await fetch('/api/commands', {
+          headers: getAuthHeaders(),
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) {
+          setCommands(data.commands);
+        }
+      } catch {
+        // No suggestions; commands still work when typed
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return commands;
+}
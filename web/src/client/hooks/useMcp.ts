@@ -0,0 +1,110 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getAuthHeaders } from './useAuth';
+import { getSessionHeaders } from './useSession';
+
+export type McpTransport = 'stdio' | 'sse' | 'http';
+
+export interface McpServerSettings {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  httpUrl?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  trust?: boolean;
+  description?: string;
+}
+
+export interface McpServer {
+  name: string;
+  transport: McpTransport;
+  settings: McpServerSettings;
+  status: string; // connected, connecting, disconnected, disabled...
+  tools: string[];
+}
+
+/**
+ * MCP servers configured for the current session's project
+ */
+export function useMcp(sessionId: string | null) {
+  const [servers, setServers] = useState<McpServer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Send a request answered with the updated server list. Returns the
+  // error message if it failed.
+  const request = useCallback(
+    async (url: string, init?: RequestInit): Promise<string | null> => {
+      try {
+        const response = await fetch(url, {
+          ...init,
+          headers: {
+            'Content-Type': 'application/json',
+            ...getAuthHeaders(),
+            ...getSessionHeaders(sessionId),
+          },
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          return data.error || 'Request failed';
+        }
+        setServers(data.servers);
+        return null;
+      } catch {
+        return 'Failed to connect to server';
+      }
+    },
+    [sessionId],
+  );
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(await request('/api/mcp'));
+    setLoading(false);
+  }, [request]);
+
+  useEffect(() => {
+    void refresh();
+  }, [sessionId, refresh]);
+
+  const addServer = useCallback(
+    (name: string, server: McpServerSettings) =>
+      request('/api/mcp', {
+        method: 'POST',
+        body: JSON.stringify({ name, server }),
+      }),
+    [request],
+  );
+
+  const removeServer = useCallback(
+    (name: string) =>
+      request(`/api/mcp/${encodeURIComponent(name)}`, { method: 'DELETE' }),
+    [request],
+  );
+
+  const restartServer = useCallback(
+    (name: string) =>
+      request(`/api/mcp/${encodeURIComponent(name)}/restart`, {
+        method: 'POST',
+      }),
+    [request],
+  );
+
+  return {
+    servers,
+    loading,
+    error,
+    refresh,
+    addServer,
+    removeServer,
+    restartServer,
+  };
+}
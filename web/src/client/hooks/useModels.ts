@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getAuthHeaders } from './useAuth';
+import { getSessionHeaders } from './useSession';
+
+export interface ModelStatus {
+  model: string;
+  available: boolean;
+  availableAt: string | null;
+}
+
+export function useModels(sessionId: string | null) {
+  const [models, setModels] = useState<ModelStatus[]>([]);
+  const [currentModel, setCurrentModel] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/models/status', {
+        headers: { ...getAuthHeaders(), ...getSessionHeaders(sessionId) },
+      });
+      if (!response.ok) return;
+      const data = await response.json();
+      setModels(data.models);
+      setCurrentModel(data.currentModel);
+    } catch {
+      // Keep the last known state
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [sessionId, refresh]);
+
+  const selectModel = useCallback(
+    async (model: string) => {
+      const response = await fetch('/api/session/model', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+          ...getSessionHeaders(sessionId),
+        },
+        body: JSON.stringify({ model }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to change model');
+      }
+      await refresh();
+    },
+    [sessionId, refresh],
+  );
+
+  return {
+    models,
+    currentModel,
+    selectModel,
+    refresh,
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useCallback } from 'react';
+
+const SESSION_KEY = 'gemini_web_session';
+
+export function useSession() {
+  const [sessionId, setSessionIdState] = useState<string | null>(() =>
+    localStorage.getItem(SESSION_KEY),
+  );
+
+  const setSessionId = useCallback((id: string | null) => {
+    if (id) {
+      localStorage.setItem(SESSION_KEY, id);
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+    setSessionIdState(id);
+  }, []);
+
+  return {
+    sessionId,
+    setSessionId,
+  };
+}
+
+// Helper to address a session in API calls. Takes the tab's own session:
+// the stored one is shared by every tab and follows whichever switched last.
+export function getSessionHeaders(
+  sessionId: string | null,
+): Record<string, string> {
+  if (sessionId) {
+    return { 'X-Session-Id': sessionId };
+  }
+  return {};
+}
@@ -9,27 +9,61 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 interface SessionInfo {
   id: string;
   projectPath: string;
+  readOnly: boolean;
 }
 
 interface WSMessage {
   type: string;
+  sessionId?: string;
+  seq?: number;
   payload?: unknown;
 }
 
 type MessageHandler = (message: WSMessage) => void;
 
-export function useWebSocket(token: string | null) {
+export function useWebSocket(token: string | null, sessionId: string | null) {
   const [connected, setConnected] = useState(false);
   const [sessionInfo, setSessionInfo] = useState<SessionInfo | null>(null);
+  const [sessionClosed, setSessionClosed] = useState(false);
   const wsRef = useRef<WebSocket | null>(null);
   const handlersRef = useRef<Set<MessageHandler>>(new Set());
   const tokenRef = useRef(token);
+  const sessionIdRef = useRef(sessionId);
+  // Last stream position seen for the current session, sent on reconnect
+  const streamIdRef = useRef<string | null>(null);
+  const lastSeqRef = useRef<number | null>(null);
 
   // Keep token ref updated
   useEffect(() => {
     tokenRef.current = token;
   }, [token]);
 
+  // Attach to the selected session (also re-sent on every reconnect)
+  const attach = useCallback(() => {
+    const ws = wsRef.current;
+    if (sessionIdRef.current && ws?.readyState === WebSocket.OPEN) {
+      ws.send(
+        JSON.stringify({
+          type: 'attach',
+          payload: {
+            sessionId: sessionIdRef.current,
+            streamId: streamIdRef.current ?? undefined,
+            lastSeq: lastSeqRef.current ?? undefined,
+          },
+        }),
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    sessionIdRef.current = sessionId;
+    streamIdRef.current = null;
+    lastSeqRef.current = null;
+    setSessionInfo(null);
+    setSessionClosed(false);
+    attach();
+  }, [sessionId, attach]);
+
   const connect = useCallback(() => {
     if (!tokenRef.current) {
       console.log('No token, skipping WebSocket connection');
@@ -39,19 +73,25 @@ export function useWebSocket(token: string | null) {
     // Build WebSocket URL from current location
     const wsUrl = new URL('/ws', window.location.href);
     wsUrl.protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    wsUrl.searchParams.set('token', tokenRef.current);
 
     console.log('Connecting to WebSocket:', wsUrl.toString());
     const ws = new WebSocket(wsUrl.toString());
 
+    // Authenticate with the first message rather than in the URL, which
+    // would end up in proxy logs; the server answers with 'connected'
     ws.onopen = () => {
-      console.log('WebSocket connected');
-      setConnected(true);
+      ws.send(
+        JSON.stringify({ type: 'auth', payload: { token: tokenRef.current } }),
+      );
     };
 
-    ws.onclose = () => {
+    ws.onclose = (event) => {
       console.log('WebSocket disconnected');
       setConnected(false);
+      // Rejected token: reconnecting won't help, wait for a new login
+      if (event.code === 1008) {
+        return;
+      }
       // Reconnect after delay
       setTimeout(connect, 3000);
     };
@@ -65,8 +105,34 @@ export function useWebSocket(token: string | null) {
         const message: WSMessage = JSON.parse(event.data);
 
         // Handle internal messages
-        if (message.type === 'session_info') {
+        if (message.type === 'connected') {
+          console.log('WebSocket connected');
+          setConnected(true);
+          attach();
+        } else if (message.type === 'session_info') {
           setSessionInfo(message.payload as SessionInfo);
+        } else if (message.type === 'session_closed') {
+          setSessionClosed(true);
+        } else if (
+          message.type === 'history' &&
+          message.sessionId === sessionIdRef.current
+        ) {
+          const { streamId, seq } = message.payload as {
+            streamId: string;
+            seq: number;
+          };
+          streamIdRef.current = streamId;
+          lastSeqRef.current = seq;
+        } else if (
+          message.type === 'stream' &&
+          message.sessionId === sessionIdRef.current &&
+          typeof message.seq === 'number'
+        ) {
+          // Drop events we already have (can overlap after a reconnect)
+          if (lastSeqRef.current !== null && message.seq <= lastSeqRef.current) {
+            return;
+          }
+          lastSeqRef.current = message.seq;
         }
 
         // Notify all handlers
@@ -77,16 +143,18 @@ export function useWebSocket(token: string | null) {
     };
 
     wsRef.current = ws;
-  }, []);
+  }, [attach]);
 
+  // Only (re)connect on login/logout; a refreshed token keeps the socket
+  const hasToken = !!token;
   useEffect(() => {
-    if (token) {
+    if (hasToken) {
       connect();
     }
     return () => {
       wsRef.current?.close();
     };
-  }, [connect, token]);
+  }, [connect, hasToken]);
 
   const sendMessage = useCallback((type: string, payload?: unknown) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
@@ -94,6 +162,12 @@ export function useWebSocket(token: string | null) {
     }
   }, []);
 
+  // Ask again for the current session, e.g. after it was resumed from disk
+  const reattach = useCallback(() => {
+    setSessionClosed(false);
+    attach();
+  }, [attach]);
+
   const subscribe = useCallback((handler: MessageHandler) => {
     handlersRef.current.add(handler);
     return () => {
@@ -104,6 +178,8 @@ export function useWebSocket(token: string | null) {
   return {
     connected,
     sessionInfo,
+    sessionClosed,
+    reattach,
     sendMessage,
     subscribe,
   };
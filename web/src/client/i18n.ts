@@ -0,0 +1,46 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Localized Strings
+ * UI text for notices generated by the client, in English or Chinese
+ * depending on the browser language
+ */
+
+type Locale = 'en' | 'zh';
+
+const locale: Locale =
+  typeof navigator !== 'undefined' &&
+  navigator.language.toLowerCase().startsWith('zh')
+    ? 'zh'
+    : 'en';
+
+export type ModelSwitchReason = 'quota' | 'recovered';
+
+const modelSwitched: Record<
+  Locale,
+  Record<ModelSwitchReason, (from: string, to: string) => string>
+> = {
+  en: {
+    quota: (from, to) => `${from} is out of quota, switched to ${to}`,
+    recovered: (from, to) => `Switched from ${from} back to ${to}`,
+  },
+  zh: {
+    quota: (from, to) => `${from} 配额已用尽，已自动切换到 ${to}`,
+    recovered: (from, to) => `已从 ${from} 切换到 ${to}`,
+  },
+};
+
+export function modelSwitchedNotice(
+  from: string,
+  to: string,
+  reason: ModelSwitchReason,
+): string {
+  return (modelSwitched[locale][reason] ?? modelSwitched[locale].quota)(
+    from,
+    to,
+  );
+}
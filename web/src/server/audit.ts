@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Audit Log
+ * Security-relevant events appended to a JSON Lines file
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type AuditEventType =
+  | 'login_success'
+  | 'login_failed'
+  | 'login_blocked';
+
+export interface AuditEntry {
+  event: AuditEventType;
+  username?: string;
+  ip?: string;
+  detail?: string;
+}
+
+export class AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Append an entry. Never throws: a failing audit log must not take
+   * logins down with it.
+   */
+  record(entry: AuditEntry): void {
+    const line =
+      JSON.stringify({ time: new Date().toISOString(), ...entry }) + '\n';
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, line, {
+          encoding: 'utf-8',
+          mode: 0o600,
+        });
+      })
+      .catch((err) => {
+        console.error(`Failed to write audit log ${this.filePath}:`, err);
+      });
+  }
+}
@@ -5,110 +5,161 @@
  */
 
 /**
- * Simple authentication middleware
+ * Authentication middleware
+ * Credentials are checked against the user store (see users.ts),
+ * tokens expire and are persisted by the token store (see tokens.ts),
+ * repeated failed logins are throttled (see throttle.ts)
  */
 
 import type { Request, Response, NextFunction } from 'express';
-import crypto from 'node:crypto';
-
-// Simple credentials (in production, use environment variables and hashing)
-const VALID_USERNAME = 'gemini';
-const VALID_PASSWORD = 'kingfisher';
-
-// Active tokens (in production, use Redis or database)
-const activeTokens = new Set<string>();
-
-export function generateToken(): string {
-  return crypto.randomBytes(32).toString('hex');
-}
+import type { User, UserStore } from './users.js';
+import type { TokenStore } from './tokens.js';
+import type { LoginThrottle } from './throttle.js';
+import type { AuditLog } from './audit.js';
 
 export function validateCredentials(
+  users: UserStore,
   username: string,
   password: string,
-): boolean {
-  return username === VALID_USERNAME && password === VALID_PASSWORD;
+): Promise<User | null> {
+  return users.verify(username, password);
 }
 
-export function createToken(): string {
-  const token = generateToken();
-  activeTokens.add(token);
-  return token;
+function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
 }
 
-export function invalidateToken(token: string): void {
-  activeTokens.delete(token);
-}
-
-export function isValidToken(token: string): boolean {
-  return activeTokens.has(token);
+function getBearerToken(req: Request): string | null {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.substring(7);
 }
 
 // Auth middleware - protects routes
-export function authMiddleware(
-  req: Request,
-  res: Response,
-  next: NextFunction,
-): void {
-  // Skip auth for login endpoint and static files
-  if (
-    req.path === '/api/auth/login' ||
-    req.path === '/api/auth/check' ||
-    !req.path.startsWith('/api')
-  ) {
-    return next();
-  }
+export function createAuthMiddleware(tokens: TokenStore) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // Skip auth for login endpoint and static files
+    if (
+      req.path === '/api/auth/login' ||
+      req.path === '/api/auth/check' ||
+      !req.path.startsWith('/api')
+    ) {
+      return next();
+    }
 
-  const authHeader = req.headers.authorization;
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    res.status(401).json({ error: 'Unauthorized' });
-    return;
-  }
+    const token = getBearerToken(req);
+    if (!token) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
 
-  const token = authHeader.substring(7);
-  if (!isValidToken(token)) {
-    res.status(401).json({ error: 'Invalid token' });
-    return;
-  }
+    const info = tokens.verify(token);
+    if (!info) {
+      res.status(401).json({ error: 'Invalid or expired token' });
+      return;
+    }
 
-  next();
+    // Available to later handlers
+    res.locals.username = info.username;
+    next();
+  };
 }
 
 // Setup auth routes
-export function setupAuthRoutes(app: import('express').Application): void {
-  // Login
-  app.post('/api/auth/login', (req: Request, res: Response) => {
-    const { username, password } = req.body;
+export function setupAuthRoutes(
+  app: import('express').Application,
+  users: UserStore,
+  tokens: TokenStore,
+  throttle: LoginThrottle,
+  audit: AuditLog,
+): void {
+  const tooManyAttempts = (res: Response, waitMs: number) => {
+    const retryAfter = Math.ceil(waitMs / 1000);
+    res.setHeader('Retry-After', String(retryAfter));
+    return res
+      .status(429)
+      .json({ error: 'Too many failed login attempts', retryAfter });
+  };
 
-    if (!username || !password) {
+  // Login
+  app.post('/api/auth/login', async (req: Request, res: Response) => {
+    const { username, password } = req.body ?? {};
+
+    // Anything else would reach the throttle and the user store as is
+    if (
+      typeof username !== 'string' ||
+      typeof password !== 'string' ||
+      !username ||
+      !password
+    ) {
       return res.status(400).json({ error: 'Username and password required' });
     }
 
-    if (!validateCredentials(username, password)) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+    const ip = getClientIp(req);
+    try {
+      // Counted before the (slow) password check, cleared if it succeeds
+      const waitMs = throttle.beginAttempt(ip, username);
+      if (waitMs > 0) {
+        audit.record({ event: 'login_blocked', username, ip });
+        return tooManyAttempts(res, waitMs);
+      }
+
+      const user = await validateCredentials(users, username, password);
+      if (!user) {
+        const backoffMs = throttle.retryAfter(ip, username);
+        audit.record({
+          event: 'login_failed',
+          username,
+          ip,
+          detail: backoffMs > 0 ? `backoff ${backoffMs}ms` : undefined,
+        });
+        return backoffMs > 0
+          ? tooManyAttempts(res, backoffMs)
+          : res.status(401).json({ error: 'Invalid credentials' });
+      }
+
+      throttle.recordSuccess(ip, username);
+      audit.record({ event: 'login_success', username: user.username, ip });
+      res.json(tokens.issue(user.username));
+    } catch (error) {
+      console.error('Login failed:', error);
+      res.status(500).json({ error: 'Login failed' });
     }
+  });
 
-    const token = createToken();
-    res.json({ token, username });
+  // Refresh: trade a still-valid token for a new one
+  app.post('/api/auth/refresh', (req: Request, res: Response) => {
+    const token = getBearerToken(req);
+    const refreshed = token ? tokens.refresh(token) : null;
+    if (!refreshed) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+    res.json(refreshed);
   });
 
   // Logout
   app.post('/api/auth/logout', (req: Request, res: Response) => {
-    const authHeader = req.headers.authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      const token = authHeader.substring(7);
-      invalidateToken(token);
+    const token = getBearerToken(req);
+    if (token) {
+      tokens.revoke(token);
     }
     res.json({ success: true });
   });
 
   // Check auth status
   app.get('/api/auth/check', (req: Request, res: Response) => {
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.json({ authenticated: false });
-    }
-
-    const token = authHeader.substring(7);
-    res.json({ authenticated: isValidToken(token) });
+    const token = getBearerToken(req);
+    const info = token ? tokens.verify(token) : null;
+    res.json(
+      info
+        ? {
+            authenticated: true,
+            username: info.username,
+            expiresAt: info.expiresAt,
+          }
+        : { authenticated: false },
+    );
   });
 }
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * User management CLI
+ * Usage: gemini-web user <add|remove|reset|list|grant|revoke> [username] ...
+ */
+
+import readline from 'node:readline/promises';
+import { Writable } from 'node:stream';
+import type { WebConfig } from './config.js';
+import { UserStore } from './users.js';
+
+const USAGE = `Usage: user <command> [username]
+
+Commands:
+  list                 List users
+  add <username>       Add a user (prompts for a password)
+  remove <username>    Remove a user
+  reset <username>     Set a new password (prompts for a password)
+  grant <username> <path> <read|write>
+                       Allow access to a project root or a single project
+  revoke <username> <path>
+                       Remove a grant
+
+The password can also be passed as a third argument, e.g. for scripts.
+Users without grants can access every configured project root.`;
+
+// Read a line without echoing it to the terminal
+async function promptPassword(prompt: string): Promise<string> {
+  const muted = new Writable({
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: muted,
+    terminal: true,
+  });
+  try {
+    process.stdout.write(prompt);
+    return await rl.question('');
+  } finally {
+    process.stdout.write('\n');
+    rl.close();
+  }
+}
+
+async function readNewPassword(given: string | undefined): Promise<string> {
+  if (given) {
+    return given;
+  }
+  const password = await promptPassword('Password: ');
+  const confirm = await promptPassword('Confirm password: ');
+  if (password !== confirm) {
+    throw new Error('Passwords do not match');
+  }
+  return password;
+}
+
+export async function runUserCommand(
+  args: string[],
+  config: WebConfig,
+): Promise<void> {
+  const [command, username, ...rest] = args;
+  const users = new UserStore(config.usersFile);
+
+  switch (command) {
+    case 'list': {
+      const list = await users.list();
+      if (list.length === 0) {
+        console.log(`No users in ${config.usersFile}`);
+      }
+      for (const user of list) {
+        console.log(`${user.username}\t(created ${user.createdAt})`);
+        if (!user.access) {
+          console.log('  all project roots (write)');
+        }
+        for (const grant of user.access ?? []) {
+          console.log(`  ${grant.path} (${grant.mode})`);
+        }
+      }
+      return;
+    }
+
+    case 'add': {
+      if (!username) break;
+      await users.add(username, await readNewPassword(rest[0]));
+      console.log(`Added user ${username}`);
+      return;
+    }
+
+    case 'remove': {
+      if (!username) break;
+      await users.remove(username);
+      console.log(`Removed user ${username}`);
+      return;
+    }
+
+    case 'reset': {
+      if (!username) break;
+      await users.resetPassword(username, await readNewPassword(rest[0]));
+      console.log(`Password reset for ${username}`);
+      return;
+    }
+
+    case 'grant': {
+      const [projectPath, mode] = rest;
+      if (!username || !projectPath) break;
+      if (mode !== 'read' && mode !== 'write') break;
+      await users.grant(username, projectPath, mode);
+      console.log(`Granted ${mode} access to ${projectPath} for ${username}`);
+      return;
+    }
+
+    case 'revoke': {
+      const [projectPath] = rest;
+      if (!username || !projectPath) break;
+      await users.revoke(username, projectPath);
+      console.log(`Revoked access to ${projectPath} for ${username}`);
+      return;
+    }
+
+    default:
+      break;
+  }
+
+  console.log(USAGE);
+  process.exitCode = 1;
+}
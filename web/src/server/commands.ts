@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Slash Commands
+ * Chat messages naming a registered command (e.g. "/clear") are run on the
+ * server instead of being sent to the model. Each command returns a typed
+ * result, published to the session as a `command_result` event.
+ */
+
+import { CompressionStatus } from '@google/gemini-cli-core';
+import type { SessionManager, SessionStats, WebSession } from './session.js';
+import type { MemoryInfo } from './memory.js';
+import type { ToolInfo } from './tools.js';
+
+export type CommandResult =
+  | { kind: 'help'; commands: CommandInfo[] }
+  | { kind: 'cleared' }
+  | {
+      kind: 'compressed';
+      compressed: boolean; // False if there was nothing worth compressing
+      originalTokens: number;
+      newTokens: number;
+    }
+  | { kind: 'tools'; tools: ToolInfo[] }
+  | ({ kind: 'memory'; action: 'show' | 'add' | 'refresh' } & MemoryInfo)
+  | { kind: 'stats'; stats: SessionStats }
+  | { kind: 'error'; message: string };
+
+export interface CommandContext {
+  session: WebSession;
+  sessionManager: SessionManager;
+  args: string; // Text after the command name, trimmed
+}
+
+export interface SlashCommand {
+  name: string; // Without the leading slash
+  description: string;
+  run(context: CommandContext): Promise<CommandResult>;
+}
+
+export interface CommandInfo {
+  command: string; // With the leading slash
+  description: string;
+}
+
+export class CommandRegistry {
+  private commands = new Map<string, SlashCommand>();
+
+  register(command: SlashCommand): void {
+    this.commands.set(command.name, command);
+  }
+
+  list(): CommandInfo[] {
+    return [...this.commands.values()].map((command) => ({
+      command: `/${command.name}`,
+      description: command.description,
+    }));
+  }
+
+  /**
+   * The command a chat message invokes and its arguments, or null if the
+   * message is an ordinary prompt. Unregistered names ("/etc/hosts ...")
+   * are prompts too.
+   */
+  match(message: string): { command: SlashCommand; args: string } | null {
+    const parsed = /^\/(\S+)(?:\s+([\s\S]*))?$/.exec(message.trim());
+    const command = parsed && this.commands.get(parsed[1].toLowerCase());
+    if (!command) {
+      return null;
+    }
+    return { command, args: (parsed[2] ?? '').trim() };
+  }
+
+  /**
+   * Run a command. Failures are returned as an error result rather than
+   * thrown, so they reach the chat like any other outcome.
+   */
+  async execute(
+    command: SlashCommand,
+    context: CommandContext,
+  ): Promise<CommandResult> {
+    try {
+      return await command.run(context);
+    } catch (error) {
+      return {
+        kind: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+/**
+ * A registry holding the built-in commands
+ */
+export function createCommandRegistry(): CommandRegistry {
+  const registry = new CommandRegistry();
+
+  registry.register({
+    name: 'help',
+    description: 'Show available commands',
+    run: async () => ({ kind: 'help', commands: registry.list() }),
+  });
+
+  registry.register({
+    name: 'clear',
+    description: 'Clear conversation history',
+    run: async ({ session, sessionManager }) => {
+      await sessionManager.resetChat(session.id);
+      return { kind: 'cleared' };
+    },
+  });
+
+  registry.register({
+    name: 'compact',
+    description: 'Summarize the conversation to free up context',
+    run: async ({ session, sessionManager }) => {
+      const info = await sessionManager.compressChat(session.id);
+      return {
+        kind: 'compressed',
+        compressed: info.compressionStatus === CompressionStatus.COMPRESSED,
+        originalTokens: info.originalTokenCount,
+        newTokens: info.newTokenCount,
+      };
+    },
+  });
+
+  registry.register({
+    name: 'tools',
+    description: 'List tools, or enable/disable one (enable|disable <name>)',
+    run: async ({ session, sessionManager, args }) => {
+      const [action = '', ...names] = args.split(/\s+/).filter(Boolean);
+      switch (action) {
+        case '':
+          break;
+        case 'enable':
+        case 'disable':
+          if (names.length === 0) {
+            throw new Error(`Usage: /tools ${action} <name>`);
+          }
+          await sessionManager.setToolAccess(
+            session.id,
+            action === 'enable' ? { allow: names } : { deny: names },
+          );
+          break;
+        default:
+          throw new Error(
+            `Unknown tools action: ${action} (use enable or disable)`,
+          );
+      }
+      return { kind: 'tools', tools: sessionManager.listTools(session.id) };
+    },
+  });
+
+  registry.register({
+    name: 'memory',
+    description:
+      'Show GEMINI.md memory, add a fact (add <fact>) or reload it (refresh)',
+    run: async ({ session, sessionManager, args }) => {
+      const [, action = '', fact = ''] =
+        /^(\S*)\s*([\s\S]*)$/.exec(args) ?? [];
+      let memory;
+      switch (action) {
+        case '':
+        case 'show':
+          memory = sessionManager.getMemory(session.id);
+          break;
+        case 'add':
+          memory = await sessionManager.addMemory(session.id, fact);
+          break;
+        case 'refresh':
+          memory = await sessionManager.refreshMemory(session.id);
+          break;
+        default:
+          throw new Error(
+            `Unknown memory action: ${action} (use show, add or refresh)`,
+          );
+      }
+      if (!memory) {
+        throw new Error('No active session');
+      }
+      return { kind: 'memory', action: action || 'show', ...memory };
+    },
+  });
+
+  registry.register({
+    name: 'stats',
+    description: 'Show session statistics',
+    run: async ({ session, sessionManager }) => {
+      const stats = sessionManager.getStats(session.id);
+      if (!stats) {
+        throw new Error('No active session');
+      }
+      return { kind: 'stats', stats };
+    },
+  });
+
+  return registry;
+}
@@ -8,6 +8,9 @@
  * Web Server Configuration
  */
 
+import os from 'node:os';
+import path from 'node:path';
+
 export interface WebConfig {
   // Root directories where projects can be selected from
   projectRoots: string[];
@@ -17,12 +20,45 @@ export interface WebConfig {
   port: number;
   // Public domain (for display/CORS)
   domain?: string;
+  // Directory for server state (users, tokens, logs)
+  dataDir: string;
+  // JSON file holding user accounts
+  usersFile: string;
+  // JSON file holding issued auth tokens
+  tokensFile: string;
+  // JSON file listing saved sessions (kept in their projects)
+  sessionIndexFile: string;
+  // How long an auth token stays valid (ms)
+  tokenTtlMs: number;
+  // JSON Lines file for login attempts and other security events
+  auditLogFile: string;
+  // Models to try in order; later ones are used while earlier ones are
+  // out of quota
+  modelChain: string[];
+  // Express "trust proxy" setting, so req.ip is the client behind a proxy
+  trustProxy?: string;
+}
+
+// TOKEN_TTL_HOURS in ms. A bad value stops the server rather than leaving
+// tokens valid forever (NaN never expires) or for a default nobody chose.
+function parseTokenTtl(value: string | undefined): number {
+  const hours = Number(value || '12');
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new Error(`TOKEN_TTL_HOURS must be a positive number: ${value}`);
+  }
+  return hours * 60 * 60 * 1000;
 }
 
 // Default configuration
 // Can be overridden via environment variables
 export function loadConfig(): WebConfig {
   const defaultRoots = ['G:\\projects', 'J:\\projects'];
+  const defaultModelChain = [
+    'gemini-2.5-pro',
+    'gemini-2.5-flash',
+    'gemini-2.0-flash',
+    'gemini-1.5-flash',
+  ];
 
   // Parse PROJECT_ROOTS from environment (comma-separated)
   const envRoots = process.env.PROJECT_ROOTS;
@@ -33,10 +69,28 @@ export function loadConfig(): WebConfig {
         .filter(Boolean)
     : defaultRoots;
 
+  const modelChain = process.env.MODEL_CHAIN
+    ? process.env.MODEL_CHAIN.split(',')
+        .map((m) => m.trim())
+        .filter(Boolean)
+    : defaultModelChain;
+
+  const dataDir =
+    process.env.DATA_DIR || path.join(os.homedir(), '.gemini-web');
+
   return {
     projectRoots,
     host: process.env.HOST || '0.0.0.0',
     port: parseInt(process.env.PORT || '14000', 10),
     domain: process.env.DOMAIN, // e.g., gemini.kingfisher.live
+    dataDir,
+    usersFile: process.env.USERS_FILE || path.join(dataDir, 'users.json'),
+    tokensFile: path.join(dataDir, 'tokens.json'),
+    sessionIndexFile: path.join(dataDir, 'sessions.json'),
+    tokenTtlMs: parseTokenTtl(process.env.TOKEN_TTL_HOURS),
+    auditLogFile:
+      process.env.AUDIT_LOG_FILE || path.join(dataDir, 'audit.log'),
+    modelChain,
+    trustProxy: process.env.TRUST_PROXY, // e.g. loopback
   };
 }
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * History Replay
+ * Rebuilds the client's chat messages from GeminiClient Content[] history
+ */
+
+import type { Content, Part } from '@google/genai';
+
+// Mirrors ChatMessage / ToolCall in src/client/hooks/useChat.ts
+export interface ReplayToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  status: 'completed' | 'cancelled';
+}
+
+export interface ReplayMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  toolCalls?: ReplayToolCall[];
+}
+
+// First user turn added by the core with environment context, not typed by the user
+const SETUP_CONTEXT_PREFIX =
+  'This is the Gemini CLI. We are setting up the context';
+
+function isSetupContext(content: Content): boolean {
+  return (
+    content.role === 'user' &&
+    !!content.parts?.some((part) => part.text?.startsWith(SETUP_CONTEXT_PREFIX))
+  );
+}
+
+function textOf(parts: Part[]): string {
+  return parts
+    .filter((part) => part.text && !part.thought)
+    .map((part) => part.text)
+    .join('');
+}
+
+/**
+ * One assistant message spans every model turn between two user prompts,
+ * the same way the client accumulates a streaming response, so tool cards
+ * end up on the message that produced them.
+ */
+export function historyToMessages(
+  history: Content[],
+  timestamp: Date,
+): ReplayMessage[] {
+  const messages: ReplayMessage[] = [];
+  const stamp = timestamp.toISOString();
+  let assistant: ReplayMessage | null = null;
+
+  const ensureAssistant = (): ReplayMessage => {
+    if (!assistant) {
+      assistant = {
+        id: `history-${messages.length}`,
+        role: 'assistant',
+        content: '',
+        timestamp: stamp,
+        toolCalls: [],
+      };
+      messages.push(assistant);
+    }
+    return assistant;
+  };
+
+  for (const content of history) {
+    const parts = content.parts ?? [];
+    if (isSetupContext(content)) continue;
+
+    if (content.role === 'model') {
+      const message = ensureAssistant();
+      message.content += textOf(parts);
+      for (const part of parts) {
+        if (!part.functionCall) continue;
+        const toolCalls = message.toolCalls ?? [];
+        toolCalls.push({
+          id: part.functionCall.id ?? `history-tool-${toolCalls.length}`,
+          name: part.functionCall.name ?? '',
+          args: part.functionCall.args ?? {},
+          status: 'completed',
+        });
+        message.toolCalls = toolCalls;
+      }
+      continue;
+    }
+
+    // User turn carrying tool results: attach them to the matching calls
+    const responses = parts.filter((part) => part.functionResponse);
+    if (responses.length > 0) {
+      const toolCalls = ensureAssistant().toolCalls ?? [];
+      for (const { functionResponse } of responses) {
+        const call =
+          toolCalls.find(
+            (t) => functionResponse?.id && t.id === functionResponse.id,
+          ) ??
+          toolCalls.find(
+            (t) => t.name === functionResponse?.name && t.result === undefined,
+          );
+        if (!call) continue;
+        const response = functionResponse?.response ?? {};
+        call.result = response['output'] ?? response['error'] ?? response;
+        if (response['error'] !== undefined && response['output'] === undefined) {
+          call.status = 'cancelled';
+        }
+      }
+      continue;
+    }
+
+    const text = textOf(parts);
+    if (!text) continue;
+    assistant = null;
+    messages.push({
+      id: `history-${messages.length}`,
+      role: 'user',
+      content: text,
+      timestamp: stamp,
+    });
+  }
+
+  return messages;
+}
@@ -18,10 +18,19 @@ import fs from 'node:fs';
 import os from 'node:os';
 import { fileURLToPath } from 'node:url';
 import { SessionManager } from './session.js';
+import { SessionStore } from './storage.js';
 import { setupRoutes } from './routes.js';
 import { setupWebSocket } from './websocket.js';
 import { loadConfig } from './config.js';
-import { authMiddleware, setupAuthRoutes } from './auth.js';
+import { createAuthMiddleware, setupAuthRoutes } from './auth.js';
+import { UserStore } from './users.js';
+import { TokenStore } from './tokens.js';
+import { AccessControl } from './permissions.js';
+import { LoginThrottle } from './throttle.js';
+import { AuditLog } from './audit.js';
+import { ModelAvailability } from './models.js';
+import { runUserCommand } from './cli.js';
+import { createCommandRegistry } from './commands.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -38,25 +47,53 @@ async function main() {
   const app = express();
   const server = createServer(app);
 
+  // Behind a reverse proxy, take the client IP from X-Forwarded-For
+  if (config.trustProxy) {
+    app.set('trust proxy', config.trustProxy);
+  }
+
   // Middleware
   app.use(cors());
   app.use(express.json());
 
+  // User accounts
+  const users = new UserStore(config.usersFile);
+  if ((await users.list()).length === 0) {
+    console.warn(
+      `No users configured in ${config.usersFile}. ` +
+        'Add one with: npm run user -- add <username>',
+    );
+  }
+
+  // Issued tokens (persisted so logins survive a restart)
+  const tokens = await TokenStore.load(config.tokensFile, config.tokenTtlMs);
+
   // Auth routes (before auth middleware)
-  setupAuthRoutes(app);
+  const audit = new AuditLog(config.auditLogFile);
+  setupAuthRoutes(app, users, tokens, new LoginThrottle(), audit);
 
   // Auth middleware (protects API routes)
-  app.use(authMiddleware);
+  app.use(createAuthMiddleware(tokens));
+
+  // Per-user project permissions (after auth, which identifies the user)
+  const access = new AccessControl(users, config.projectRoots);
+  app.use(access.middleware());
 
-  // Session manager (single session for simplicity)
-  const sessionManager = new SessionManager();
+  // Session manager (holds every active session, keyed by ID)
+  const sessionManager = new SessionManager(
+    new SessionStore(config.projectRoots, config.sessionIndexFile),
+    new ModelAvailability(config.modelChain),
+  );
+
+  // Slash commands, shared by the chat socket and the command list route
+  const commands = createCommandRegistry();
 
   // API routes
-  setupRoutes(app, sessionManager, config);
+  setupRoutes(app, sessionManager, config, commands);
 
   // WebSocket for streaming
   const wss = new WebSocketServer({ server, path: '/ws' });
-  setupWebSocket(wss, sessionManager);
+  setupWebSocket(wss, sessionManager, tokens, access, commands);
 
   // Serve static files in production
   const clientPath = path.join(__dirname, '../client');
@@ -86,4 +123,12 @@ async function main() {
   });
 }
 
-main().catch(console.error);
+// `user ...` manages accounts instead of starting the server
+if (process.argv[2] === 'user') {
+  runUserCommand(process.argv.slice(3), config).catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+} else {
+  main().catch(console.error);
+}
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * MCP Servers
+ * Reads and writes the `mcpServers` section of a project's
+ * .gemini/settings.json (the same file the Gemini CLI uses) and applies
+ * changes to a session's running MCP clients
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  DiscoveredMCPTool,
+  MCPServerConfig,
+  getMCPServerStatus,
+  type Config,
+  type GeminiCLIExtension,
+} from '@google/gemini-cli-core';
+
+const GEMINI_DIR = '.gemini';
+const SETTINGS_FILE = 'settings.json';
+
+// A server entry as stored in settings.json. Exactly one of command (stdio),
+// url (SSE) or httpUrl (streamable HTTP) says how to reach it.
+export interface McpServerSettings {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  httpUrl?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  trust?: boolean;
+  description?: string;
+  includeTools?: string[];
+  excludeTools?: string[];
+}
+
+export type McpTransport = 'stdio' | 'sse' | 'http';
+
+export interface McpServerInfo {
+  name: string;
+  transport: McpTransport;
+  settings: McpServerSettings;
+  // connected, connecting, disconnecting, disconnected, or disabled in a
+  // read-only session
+  status: string;
+  tools: string[]; // Tools discovered from the server
+}
+
+function settingsPath(projectPath: string): string {
+  return path.join(projectPath, GEMINI_DIR, SETTINGS_FILE);
+}
+
+async function readSettings(
+  projectPath: string,
+): Promise<Record<string, unknown>> {
+  let text: string;
+  try {
+    text = await fs.readFile(settingsPath(projectPath), 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw err;
+  }
+  const settings = JSON.parse(text);
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error(`${settingsPath(projectPath)} is not a JSON object`);
+  }
+  return settings;
+}
+
+export async function readMcpSettings(
+  projectPath: string,
+): Promise<Record<string, McpServerSettings>> {
+  const { mcpServers } = await readSettings(projectPath);
+  return mcpServers && typeof mcpServers === 'object'
+    ? (mcpServers as Record<string, McpServerSettings>)
+    : {};
+}
+
+/**
+ * Replace the mcpServers section, keeping every other setting in the file
+ */
+export async function writeMcpSettings(
+  projectPath: string,
+  servers: Record<string, McpServerSettings>,
+): Promise<void> {
+  const settings = await readSettings(projectPath);
+  settings.mcpServers = servers;
+  const file = settingsPath(projectPath);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(settings, null, 2) + '\n', 'utf-8');
+}
+
+export function transportOf(settings: McpServerSettings): McpTransport {
+  if (settings.httpUrl) return 'http';
+  if (settings.url) return 'sse';
+  return 'stdio';
+}
+
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function isStringMap(value: unknown): boolean {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    Object.values(value).every((v) => typeof v === 'string')
+  );
+}
+
+/**
+ * Check a server entry from a client. Returns an error message, or null if
+ * the entry is usable.
+ */
+export function validateMcpServer(
+  name: unknown,
+  settings: unknown,
+): string | null {
+  if (typeof name !== 'string' || !/^[\w.-]+$/.test(name)) {
+    return 'name must be letters, digits, "_", "-" or "."';
+  }
+  if (!settings || typeof settings !== 'object') {
+    return 'server settings are required';
+  }
+  const s = settings as Record<string, unknown>;
+  const endpoints = ['command', 'url', 'httpUrl'].filter((key) => s[key]);
+  if (endpoints.length !== 1) {
+    return 'exactly one of command, url or httpUrl is required';
+  }
+  for (const key of ['command', 'url', 'httpUrl', 'cwd', 'description']) {
+    if (s[key] !== undefined && typeof s[key] !== 'string') {
+      return `${key} must be a string`;
+    }
+  }
+  for (const key of ['args', 'includeTools', 'excludeTools']) {
+    if (s[key] !== undefined && !isStringList(s[key])) {
+      return `${key} must be a list of strings`;
+    }
+  }
+  for (const key of ['env', 'headers']) {
+    if (s[key] !== undefined && !isStringMap(s[key])) {
+      return `${key} must map names to strings`;
+    }
+  }
+  if (s.timeout !== undefined && typeof s.timeout !== 'number') {
+    return 'timeout must be a number';
+  }
+  if (s.trust !== undefined && typeof s.trust !== 'boolean') {
+    return 'trust must be true or false';
+  }
+  return null;
+}
+
+export function toServerConfig(settings: McpServerSettings): MCPServerConfig {
+  return new MCPServerConfig(
+    settings.command,
+    settings.args,
+    settings.env,
+    settings.cwd,
+    settings.url,
+    settings.httpUrl,
+    settings.headers,
+    undefined, // tcp
+    settings.timeout,
+    settings.trust,
+    settings.description,
+    settings.includeTools,
+    settings.excludeTools,
+  );
+}
+
+export function toServerConfigs(
+  servers: Record<string, McpServerSettings>,
+): Record<string, MCPServerConfig> {
+  return Object.fromEntries(
+    Object.entries(servers).map(([name, settings]) => [
+      name,
+      toServerConfig(settings),
+    ]),
+  );
+}
+
+/**
+ * Configured servers with their connection status and discovered tools.
+ * Sessions that don't run MCP servers report them all as disabled.
+ */
+export function describeMcpServers(
+  config: Config,
+  servers: Record<string, McpServerSettings>,
+  running: boolean,
+): McpServerInfo[] {
+  const registry = config.getToolRegistry();
+  return Object.entries(servers).map(([name, settings]) => ({
+    name,
+    transport: transportOf(settings),
+    settings,
+    status: running ? getMCPServerStatus(name) : 'disabled',
+    tools: registry
+      .getToolsByServer(name)
+      .map((tool) =>
+        tool instanceof DiscoveredMCPTool ? tool.serverToolName : tool.name,
+      ),
+  }));
+}
+
+/**
+ * Connect a new server to a running session and register its tools
+ */
+export async function startMcpServer(
+  config: Config,
+  name: string,
+  settings: McpServerSettings,
+): Promise<void> {
+  const serverConfig = toServerConfig(settings);
+  config.setMcpServers({ ...config.getMcpServers(), [name]: serverConfig });
+  await config
+    .getMcpClientManager()
+    ?.maybeDiscoverMcpServer(name, serverConfig);
+}
+
+/**
+ * Disconnect a server from a running session and drop its tools
+ */
+export async function stopMcpServer(
+  config: Config,
+  name: string,
+): Promise<void> {
+  const { [name]: removed, ...rest } = config.getMcpServers() ?? {};
+  config.setMcpServers(rest);
+  // The client manager has no public call to stop a single server;
+  // stopExtension disconnects exactly the servers of the extension it is
+  // given (and reads nothing else), so the server gets one of its own
+  const extension: GeminiCLIExtension = {
+    id: `web:${name}`,
+    name: `web:${name}`,
+    version: '0.0.0',
+    isActive: false,
+    path: '',
+    contextFiles: [],
+    mcpServers: { [name]: removed ?? new MCPServerConfig() },
+  };
+  await config.getMcpClientManager()?.stopExtension(extension);
+}
+
+export async function restartMcpServer(
+  config: Config,
+  name: string,
+): Promise<void> {
+  const manager = config.getMcpClientManager();
+  if (!manager) {
+    throw new Error('MCP is not available in this session');
+  }
+  await manager.restartServer(name);
+}
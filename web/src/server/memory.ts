@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Project Memory
+ * The hierarchical GEMINI.md context a session's Config loads (global,
+ * project and subdirectory files), and facts users add to the project's
+ * own .gemini/GEMINI.md
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  DEFAULT_CONTEXT_FILENAME,
+  MemoryTool,
+  refreshServerHierarchicalMemory,
+  type Config,
+} from '@google/gemini-cli-core';
+
+const GEMINI_DIR = '.gemini';
+
+export interface MemoryInfo {
+  files: string[]; // Loaded GEMINI.md files, most general first
+  content: string; // Combined memory as given to the model
+  projectFile: string; // Where added facts go
+}
+
+export function projectMemoryFile(projectPath: string): string {
+  return path.join(projectPath, GEMINI_DIR, DEFAULT_CONTEXT_FILENAME);
+}
+
+export function getMemoryInfo(config: Config): MemoryInfo {
+  return {
+    files: config.getGeminiMdFilePaths(),
+    content: config.getUserMemory(),
+    projectFile: projectMemoryFile(config.getTargetDir()),
+  };
+}
+
+/**
+ * (Re)load the GEMINI.md files into the Config. The project's
+ * .gemini/GEMINI.md is not on the discovery path, so it is appended here.
+ */
+export async function loadMemory(config: Config): Promise<MemoryInfo> {
+  await refreshServerHierarchicalMemory(config);
+
+  const projectFile = projectMemoryFile(config.getTargetDir());
+  const files = config.getGeminiMdFilePaths();
+  if (!files.includes(projectFile)) {
+    let content: string | null = null;
+    try {
+      content = await fs.readFile(projectFile, 'utf-8');
+    } catch {
+      // No facts added to this project yet
+    }
+    if (content?.trim()) {
+      const relative = path.relative(config.getTargetDir(), projectFile);
+      config.setUserMemory(
+        [
+          config.getUserMemory(),
+          `--- Context from: ${relative} ---\n${content.trim()}\n--- End of Context from: ${relative} ---`,
+        ]
+          .filter(Boolean)
+          .join('\n\n'),
+      );
+      config.setGeminiMdFilePaths([...files, projectFile]);
+      config.setGeminiMdFileCount(files.length + 1);
+    }
+  }
+
+  return getMemoryInfo(config);
+}
+
+/**
+ * Append a fact to the project's .gemini/GEMINI.md, under the same heading
+ * the save_memory tool uses
+ */
+export async function addMemoryFact(
+  projectPath: string,
+  fact: string,
+): Promise<void> {
+  const text = fact.trim();
+  if (!text) {
+    throw new Error('Memory fact must not be empty');
+  }
+  await MemoryTool.performAddMemoryEntry(text, projectMemoryFile(projectPath), {
+    readFile: (file, encoding) => fs.readFile(file, encoding),
+    writeFile: (file, data, encoding) => fs.writeFile(file, data, encoding),
+    mkdir: (dir, options) => fs.mkdir(dir, options),
+  });
+}
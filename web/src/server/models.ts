@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Model Availability
+ * Tracks which models in the fallback chain have run out of quota and when
+ * they can be used again. Quotas belong to the API key, not to a session,
+ * so one tracker is shared by all sessions.
+ */
+
+// Cooldown when the error carries no retry hint
+const DEFAULT_COOLDOWN_MS = 10 * 60 * 1000;
+
+export interface ModelStatus {
+  model: string;
+  available: boolean;
+  availableAt: string | null; // ISO time the cooldown ends, if cooling down
+}
+
+export class ModelAvailability {
+  // Model name -> epoch ms when it becomes usable again
+  private cooldowns = new Map<string, number>();
+
+  constructor(readonly chain: string[]) {
+    if (chain.length === 0) {
+      throw new Error('Model chain must contain at least one model');
+    }
+  }
+
+  /**
+   * Put a model on cooldown. Returns the time it becomes usable again.
+   */
+  markExhausted(model: string, retryAfterMs?: number): number {
+    const availableAt = Date.now() + (retryAfterMs ?? DEFAULT_COOLDOWN_MS);
+    this.cooldowns.set(model, availableAt);
+    return availableAt;
+  }
+
+  isAvailable(model: string): boolean {
+    const availableAt = this.cooldowns.get(model);
+    if (availableAt === undefined) {
+      return true;
+    }
+    if (availableAt <= Date.now()) {
+      this.cooldowns.delete(model);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * The most preferred model that is usable now, or null if every model in
+   * the chain is cooling down. With `startAt`, models from that point of
+   * the chain are tried first (e.g. a model the user picked and the ones
+   * after it).
+   */
+  preferred(startAt?: string): string | null {
+    const start = startAt ? this.chain.indexOf(startAt) : -1;
+    if (start >= 0) {
+      const fromStart = this.chain
+        .slice(start)
+        .find((model) => this.isAvailable(model));
+      if (fromStart) {
+        return fromStart;
+      }
+    }
+    return this.chain.find((model) => this.isAvailable(model)) ?? null;
+  }
+
+  /**
+   * Earliest time a model in the chain comes off cooldown, if any is on it
+   */
+  nextAvailableAt(): number | null {
+    const times = this.chain
+      .filter((model) => !this.isAvailable(model))
+      .map((model) => this.cooldowns.get(model)!);
+    return times.length ? Math.min(...times) : null;
+  }
+
+  status(): ModelStatus[] {
+    return this.chain.map((model) => {
+      const available = this.isAvailable(model);
+      const availableAt = this.cooldowns.get(model);
+      return {
+        model,
+        available,
+        availableAt:
+          !available && availableAt
+            ? new Date(availableAt).toISOString()
+            : null,
+      };
+    });
+  }
+}
+
+/**
+ * Retry hint from a quota error, in milliseconds. Understands the forms the
+ * Gemini API uses: "Please retry in 34.5s", "retryDelay": "34s" and
+ * "reset after 1h2m3s".
+ */
+export function parseRetryDelayMs(error: unknown): number | undefined {
+  const text =
+    error && typeof error === 'object' && 'message' in error
+      ? String(error.message)
+      : String(error);
+
+  const seconds =
+    /retry in ([\d.]+)\s*s/i.exec(text)?.[1] ??
+    /"?retryDelay"?\s*:\s*"([\d.]+)s"/i.exec(text)?.[1];
+  if (seconds) {
+    return Math.ceil(parseFloat(seconds) * 1000);
+  }
+
+  const reset = /reset after ((?:\d+h)?(?:\d+m)?(?:\d+s)?)/i.exec(text)?.[1];
+  if (reset) {
+    const hours = parseInt(/(\d+)h/.exec(reset)?.[1] ?? '0', 10);
+    const minutes = parseInt(/(\d+)m/.exec(reset)?.[1] ?? '0', 10);
+    const secs = parseInt(/(\d+)s/.exec(reset)?.[1] ?? '0', 10);
+    const ms = ((hours * 60 + minutes) * 60 + secs) * 1000;
+    if (ms > 0) {
+      return ms;
+    }
+  }
+
+  return undefined;
+}
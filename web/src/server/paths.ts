@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Path Resolution
+ * Resolves client-supplied paths against a root directory, following
+ * symlinks, and refuses anything that ends up outside of it
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type PathAccessErrorCode = 'invalid_path' | 'outside_root' | 'not_found';
+
+export class PathAccessError extends Error {
+  constructor(
+    message: string,
+    readonly code: PathAccessErrorCode,
+  ) {
+    super(message);
+    this.name = 'PathAccessError';
+  }
+
+  // HTTP status for route handlers
+  get status(): number {
+    switch (this.code) {
+      case 'invalid_path':
+        return 400;
+      case 'not_found':
+        return 404;
+      default:
+        return 403;
+    }
+  }
+}
+
+/**
+ * True if `child` is `parent` or below it, compared segment by segment
+ * ("/proj-secrets" is not inside "/proj"). On Windows the comparison is
+ * case-insensitive and paths on different drives are never nested.
+ */
+export function isWithin(child: string, parent: string): boolean {
+  const relative = path.relative(parent, child);
+  return (
+    relative === '' ||
+    (relative !== '..' &&
+      !relative.startsWith('..' + path.sep) &&
+      !path.isAbsolute(relative))
+  );
+}
+
+// realpath of the deepest existing ancestor, with the missing tail appended
+async function realpathAllowMissing(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+    const parent = path.dirname(target);
+    if (parent === target) {
+      throw err;
+    }
+    return path.join(
+      await realpathAllowMissing(parent),
+      path.basename(target),
+    );
+  }
+}
+
+export interface ResolveOptions {
+  // Resolve a symlink in the last segment itself rather than its target,
+  // e.g. so deleting a link removes the link
+  followFinalSymlink?: boolean;
+}
+
+/**
+ * Resolve `requested` (relative to `root`) with all symlinks followed, and
+ * check the result is still inside the root. Paths that don't exist yet are
+ * allowed, for writes. The result is expressed below `root` as given, so it
+ * can be matched against permission grants.
+ */
+export async function resolveWithin(
+  root: string,
+  requested: string,
+  { followFinalSymlink = true }: ResolveOptions = {},
+): Promise<string> {
+  if (requested.includes('\0')) {
+    throw new PathAccessError('Invalid path', 'invalid_path');
+  }
+
+  let realRoot: string;
+  try {
+    realRoot = await fs.realpath(root);
+  } catch {
+    throw new PathAccessError(`Directory does not exist: ${root}`, 'not_found');
+  }
+
+  // Lexical check first: "..", absolute paths and other drives
+  const candidate = path.resolve(realRoot, requested);
+  if (!isWithin(candidate, realRoot)) {
+    throw new PathAccessError('Access denied', 'outside_root');
+  }
+
+  let real: string;
+  if (followFinalSymlink || candidate === realRoot) {
+    real = await realpathAllowMissing(candidate);
+  } else {
+    real = path.join(
+      await realpathAllowMissing(path.dirname(candidate)),
+      path.basename(candidate),
+    );
+  }
+
+  if (!isWithin(real, realRoot)) {
+    throw new PathAccessError('Access denied', 'outside_root');
+  }
+
+  return path.join(path.resolve(root), path.relative(realRoot, real));
+}
+
+/**
+ * Canonical form of a project directory under one of the allowed roots.
+ * The directory must exist and, symlinks resolved, stay inside that root.
+ */
+export async function resolveProjectPath(
+  projectPath: string,
+  projectRoots: string[],
+): Promise<string> {
+  const requested = path.resolve(projectPath);
+  const root = projectRoots.find((r) => isWithin(requested, path.resolve(r)));
+  if (!root) {
+    throw new PathAccessError(
+      'Access denied: project not in allowed roots',
+      'outside_root',
+    );
+  }
+
+  const resolved = await resolveWithin(
+    root,
+    path.relative(path.resolve(root), requested),
+  );
+  try {
+    await fs.access(resolved);
+  } catch {
+    throw new PathAccessError('Directory does not exist', 'not_found');
+  }
+  return resolved;
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Project Permissions
+ * Per-user access to project roots and projects, on top of the global
+ * projectRoots allow-list
+ */
+
+import path from 'node:path';
+import type { Request, Response, NextFunction } from 'express';
+import type { AccessMode, ProjectAccess, UserStore } from './users.js';
+import { isWithin } from './paths.js';
+
+/**
+ * What one user may do. A user without explicit grants has read-write
+ * access to every configured root; otherwise the most specific grant
+ * covering a path decides.
+ */
+export class Permissions {
+  private readonly roots: string[];
+  private readonly grants: ProjectAccess[] | null;
+
+  constructor(
+    readonly username: string,
+    projectRoots: string[],
+    grants: ProjectAccess[] | undefined,
+  ) {
+    this.roots = projectRoots.map((root) => path.resolve(root));
+    // Longest path first, so the first match is the most specific
+    this.grants = grants
+      ? grants
+          .map((grant) => ({ ...grant, path: path.resolve(grant.path) }))
+          .sort((a, b) => b.path.length - a.path.length)
+      : null;
+  }
+
+  /**
+   * Access mode for a path, or null if the user may not see it at all
+   */
+  accessFor(targetPath: string): AccessMode | null {
+    const resolved = path.resolve(targetPath);
+    if (!this.roots.some((root) => isWithin(resolved, root))) {
+      return null;
+    }
+    if (!this.grants) {
+      return 'write';
+    }
+    const grant = this.grants.find((g) => isWithin(resolved, g.path));
+    return grant?.mode ?? null;
+  }
+
+  canRead(targetPath: string): boolean {
+    return this.accessFor(targetPath) !== null;
+  }
+
+  canWrite(targetPath: string): boolean {
+    return this.accessFor(targetPath) === 'write';
+  }
+
+  /**
+   * Whether the user may drive a session (send prompts, approve tools).
+   * Read-only users may only drive sessions whose tools are read-only.
+   */
+  canRun(projectPath: string, readOnlySession: boolean): boolean {
+    const mode = this.accessFor(projectPath);
+    return mode === 'write' || (mode === 'read' && readOnlySession);
+  }
+
+  /**
+   * A root is listed if the user has access to it or to a project in it
+   */
+  canSeeRoot(rootPath: string): boolean {
+    const resolved = path.resolve(rootPath);
+    if (!this.roots.includes(resolved)) {
+      return false;
+    }
+    if (!this.grants) {
+      return true;
+    }
+    return this.grants.some(
+      (grant) =>
+        isWithin(grant.path, resolved) || isWithin(resolved, grant.path),
+    );
+  }
+}
+
+export class AccessControl {
+  constructor(
+    private readonly users: UserStore,
+    private readonly projectRoots: string[],
+  ) {}
+
+  /**
+   * Current permissions of a user, or null if the account no longer exists.
+   * Read on every request so grant changes apply without a restart.
+   */
+  async forUser(username: string): Promise<Permissions | null> {
+    const user = await this.users.get(username);
+    return user
+      ? new Permissions(user.username, this.projectRoots, user.access)
+      : null;
+  }
+
+  /**
+   * Sets res.locals.permissions for requests the auth middleware let through
+   */
+  middleware() {
+    return async (
+      req: Request,
+      res: Response,
+      next: NextFunction,
+    ): Promise<void> => {
+      const username = res.locals.username as string | undefined;
+      if (!username) {
+        return next();
+      }
+
+      try {
+        const permissions = await this.forUser(username);
+        if (!permissions) {
+          res.status(401).json({ error: 'Unknown user' });
+          return;
+        }
+        res.locals.permissions = permissions;
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+}
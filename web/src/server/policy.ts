@@ -0,0 +1,270 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Tool Approval Policy
+ * Per-project rules that approve tool calls without asking, kept in the
+ * project's .gemini/web-policy.json. A rule is added when a user answers a
+ * confirmation with one of the "always" outcomes.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import {
+  SHELL_TOOL_NAMES,
+  ToolConfirmationOutcome,
+  isShellInvocationAllowlisted,
+  splitCommands,
+  stripShellWrapper,
+  type AnyToolInvocation,
+  type ToolCallConfirmationDetails,
+} from '@google/gemini-cli-core';
+
+const GEMINI_DIR = '.gemini';
+const POLICY_FILE = 'web-policy.json';
+
+export type PolicyMatch =
+  | { type: 'tool'; tool: string } // Every call to the tool
+  | { type: 'shell'; command: string } // Commands that start with this
+  | { type: 'mcp_server'; server: string }; // Every tool of the server
+
+export type PolicyRule = PolicyMatch & {
+  id: string;
+  createdBy: string;
+  createdAt: string;
+};
+
+// Outcomes that save a rule rather than approving just this call
+const ALWAYS_OUTCOMES: readonly string[] = [
+  ToolConfirmationOutcome.ProceedAlways,
+  ToolConfirmationOutcome.ProceedAlwaysTool,
+  ToolConfirmationOutcome.ProceedAlwaysServer,
+];
+
+export function isAlwaysOutcome(outcome: ToolConfirmationOutcome): boolean {
+  return ALWAYS_OUTCOMES.includes(outcome);
+}
+
+export function parseOutcome(value: unknown): ToolConfirmationOutcome | null {
+  return Object.values(ToolConfirmationOutcome).includes(
+    value as ToolConfirmationOutcome,
+  )
+    ? (value as ToolConfirmationOutcome)
+    : null;
+}
+
+/**
+ * The answers a user can give to a confirmation. Sessions that can't change
+ * the project's policy only get the one-off answers.
+ */
+export function confirmationOutcomes(
+  details: ToolCallConfirmationDetails,
+  canSavePolicy: boolean,
+): ToolConfirmationOutcome[] {
+  const always = !canSavePolicy
+    ? []
+    : details.type === 'mcp'
+      ? [
+          ToolConfirmationOutcome.ProceedAlwaysTool,
+          ToolConfirmationOutcome.ProceedAlwaysServer,
+        ]
+      : [ToolConfirmationOutcome.ProceedAlways];
+  return [
+    ToolConfirmationOutcome.ProceedOnce,
+    ...always,
+    ToolConfirmationOutcome.Cancel,
+  ];
+}
+
+const normalize = (command: string) => command.trim().replace(/\s+/g, ' ');
+
+// Whether `prefix` starts the command, or one command of its chain, at a
+// word boundary
+function startsCommand(prefix: string, command: string): boolean {
+  const stripped = stripShellWrapper(command);
+  return [stripped, ...splitCommands(stripped)]
+    .map(normalize)
+    .some((c) => c === prefix || c.startsWith(`${prefix} `));
+}
+
+/**
+ * The rule an "always" outcome asks for. A shell approval covers the
+ * command given (e.g. "npm test"), or the whole command that was asked
+ * about if none is. Throws if the given command doesn't start the one
+ * asked about, as the rule would then cover more than the user saw.
+ */
+export function policyMatchFor(
+  outcome: ToolConfirmationOutcome,
+  toolName: string,
+  details: ToolCallConfirmationDetails,
+  command?: string,
+): PolicyMatch | null {
+  switch (outcome) {
+    case ToolConfirmationOutcome.ProceedAlways:
+      if (details.type === 'exec') {
+        const prefix = normalize(command ?? details.command);
+        if (!prefix) {
+          return null;
+        }
+        if (!startsCommand(prefix, details.command)) {
+          throw new Error(
+            `Not the start of the command asked about: ${prefix}`,
+          );
+        }
+        return { type: 'shell', command: prefix };
+      }
+      return { type: 'tool', tool: toolName };
+    case ToolConfirmationOutcome.ProceedAlwaysTool:
+      return { type: 'tool', tool: toolName };
+    case ToolConfirmationOutcome.ProceedAlwaysServer:
+      return details.type === 'mcp'
+        ? { type: 'mcp_server', server: details.serverName }
+        : null;
+    default:
+      return null;
+  }
+}
+
+function policyPath(projectPath: string): string {
+  return path.join(projectPath, GEMINI_DIR, POLICY_FILE);
+}
+
+export async function readPolicy(projectPath: string): Promise<PolicyRule[]> {
+  try {
+    const text = await fs.readFile(policyPath(projectPath), 'utf-8');
+    const rules = JSON.parse(text);
+    return Array.isArray(rules) ? rules : [];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw err;
+  }
+}
+
+async function writePolicy(
+  projectPath: string,
+  rules: PolicyRule[],
+): Promise<void> {
+  const file = policyPath(projectPath);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmpPath = `${file}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(rules, null, 2), 'utf-8');
+  await fs.rename(tmpPath, file);
+}
+
+// Rule changes per project, run one at a time so none is lost to another
+// that read the file before it was written
+const policyWrites = new Map<string, Promise<unknown>>();
+
+function serialized<T>(projectPath: string, change: () => Promise<T>) {
+  const result = (policyWrites.get(projectPath) ?? Promise.resolve()).then(
+    change,
+  );
+  const settled = result.catch(() => undefined);
+  policyWrites.set(projectPath, settled);
+  void settled.then(() => {
+    if (policyWrites.get(projectPath) === settled) {
+      policyWrites.delete(projectPath);
+    }
+  });
+  return result;
+}
+
+function sameMatch(a: PolicyMatch, b: PolicyMatch): boolean {
+  switch (a.type) {
+    case 'tool':
+      return b.type === 'tool' && a.tool === b.tool;
+    case 'shell':
+      return b.type === 'shell' && a.command === b.command;
+    case 'mcp_server':
+      return b.type === 'mcp_server' && a.server === b.server;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Save a rule, or return the existing one if the project already has it
+ */
+export async function addPolicyRule(
+  projectPath: string,
+  match: PolicyMatch,
+  createdBy: string,
+): Promise<PolicyRule> {
+  return serialized(projectPath, async () => {
+    const rules = await readPolicy(projectPath);
+    const existing = rules.find((rule) => sameMatch(rule, match));
+    if (existing) {
+      return existing;
+    }
+    const rule: PolicyRule = {
+      ...match,
+      id: randomUUID(),
+      createdBy,
+      createdAt: new Date().toISOString(),
+    };
+    await writePolicy(projectPath, [...rules, rule]);
+    return rule;
+  });
+}
+
+/**
+ * Revoke a rule. Returns false if the project has no rule with that ID.
+ */
+export async function removePolicyRule(
+  projectPath: string,
+  id: string,
+): Promise<boolean> {
+  return serialized(projectPath, async () => {
+    const rules = await readPolicy(projectPath);
+    const remaining = rules.filter((rule) => rule.id !== id);
+    if (remaining.length === rules.length) {
+      return false;
+    }
+    await writePolicy(projectPath, remaining);
+    return true;
+  });
+}
+
+function ruleAllows(
+  rule: PolicyRule,
+  toolName: string,
+  invocation: AnyToolInvocation,
+  details: ToolCallConfirmationDetails,
+): boolean {
+  switch (rule.type) {
+    case 'tool':
+      return rule.tool === toolName;
+    case 'shell':
+      // Every command of a chain (a && b; c) has to match
+      return (
+        details.type === 'exec' &&
+        isShellInvocationAllowlisted(invocation, [
+          `${SHELL_TOOL_NAMES[0]}(${rule.command})`,
+        ])
+      );
+    case 'mcp_server':
+      return details.type === 'mcp' && rule.server === details.serverName;
+    default:
+      return false;
+  }
+}
+
+/**
+ * The first rule that approves a call waiting for confirmation, if any
+ */
+export function findAllowingRule(
+  rules: PolicyRule[],
+  toolName: string,
+  invocation: AnyToolInvocation,
+  details: ToolCallConfirmationDetails,
+): PolicyRule | undefined {
+  return rules.find((rule) =>
+    ruleAllows(rule, toolName, invocation, details),
+  );
+}
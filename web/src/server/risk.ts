@@ -0,0 +1,328 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Confirmation Risk
+ * Parses shell commands waiting for confirmation and rates how much harm a
+ * tool call could do, so the browser can show the user what they approve
+ */
+
+import os from 'node:os';
+import path from 'node:path';
+import {
+  getCommandRoots,
+  splitCommands,
+  stripShellWrapper,
+  type ToolCallConfirmationDetails,
+} from '@google/gemini-cli-core';
+import { isWithin } from './paths.js';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface Risk {
+  level: RiskLevel;
+  reasons: string[]; // Why, most serious first
+}
+
+export interface ShellCommandInfo {
+  command: string; // Without a `bash -c` wrapper
+  commands: string[]; // Each command of a chain or pipeline
+  roots: string[]; // Distinct programs run (git, npm, ...)
+  cwd: string; // Relative to the project; "." for its root
+}
+
+interface RiskRule {
+  level: RiskLevel;
+  reason: string;
+  pattern: RegExp;
+}
+
+// Checked against each command of a chain
+const COMMAND_RULES: RiskRule[] = [
+  {
+    level: 'high',
+    reason: 'Deletes files recursively',
+    pattern: /^rm\s+(?:.*\s)?(?:-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)\b/,
+  },
+  {
+    level: 'high',
+    reason: 'Runs with elevated privileges',
+    pattern: /^(?:sudo|su|doas)\b/,
+  },
+  {
+    level: 'high',
+    reason: 'Writes to a disk or partition',
+    pattern: /^(?:mkfs(?:\.\w+)?|dd|fdisk|parted|wipefs)\b/,
+  },
+  {
+    level: 'high',
+    reason: 'Changes permissions recursively',
+    pattern: /^(?:chmod|chown)\s+(?:.*\s)?-[a-zA-Z]*R/,
+  },
+  {
+    level: 'medium',
+    reason: 'Rewrites or discards git history',
+    pattern:
+      /^git\s+(?:push\s+(?:.*\s)?(?:--force|-f)\b|reset\s+--hard|clean\s+-[a-zA-Z]*f|rebase\b)/,
+  },
+  {
+    level: 'medium',
+    reason: 'Deletes files',
+    // Recursive deletes are reported above instead
+    pattern:
+      /^(?:rm|rmdir|unlink|shred)\b(?!.*\s(?:-[a-zA-Z]*[rR]|--recursive))/,
+  },
+  {
+    level: 'medium',
+    reason: 'Installs packages',
+    pattern:
+      /^(?:(?:npm|pnpm|yarn|bun)\s+(?:install|i|add)\b|(?:pip3?|gem|cargo|go)\s+install\b|(?:apt(?:-get)?|brew|dnf|yum)\s+install\b)/,
+  },
+  {
+    level: 'medium',
+    reason: 'Uses the network',
+    pattern: /^(?:curl|wget|ssh|scp|rsync|nc|ncat|telnet|ftp)\b/,
+  },
+  {
+    level: 'medium',
+    reason: 'Stops processes',
+    pattern: /^(?:kill|pkill|killall)\b/,
+  },
+];
+
+// Checked against the whole command, as they span a pipeline
+const PIPELINE_RULES: RiskRule[] = [
+  {
+    level: 'high',
+    reason: 'Runs a script downloaded from the network',
+    pattern:
+      /\b(?:curl|wget)\b[^;&]*\|\s*(?:sudo\s+)?(?:ba|z|da|k)?sh\b|\$\(\s*(?:curl|wget)\b/,
+  },
+];
+
+// Commands that change the paths they are given, and which of their
+// arguments are those paths
+const WRITING_COMMANDS: Record<string, 'all' | 'last' | 'after-first'> = {
+  rm: 'all',
+  rmdir: 'all',
+  unlink: 'all',
+  shred: 'all',
+  touch: 'all',
+  mkdir: 'all',
+  truncate: 'all',
+  tee: 'all',
+  mv: 'all', // The sources are removed too
+  cp: 'last',
+  ln: 'last',
+  install: 'last',
+  chmod: 'after-first', // The first argument is the mode
+  chown: 'after-first',
+};
+
+const LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+// Variable assignments before a command (FOO=1 BAR="a b" rm ...)
+const ASSIGNMENTS =
+  /^(?:[A-Za-z_][A-Za-z0-9_]*=(?:"(?:[^"\\]|\\.)*"|'[^']*'|[^\s"']*)+\s+)+/;
+
+// The command itself, as run
+function withoutAssignments(command: string): string {
+  return command.replace(ASSIGNMENTS, '');
+}
+
+// Split a command line at unquoted ;, &, | and newlines, keeping
+// redirections (which the core's parser leaves out of its commands)
+function rawCommands(command: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') {
+        current += ch + (command[++i] ?? '');
+        continue;
+      }
+      if (ch === quote) quote = null;
+      current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      current += ch;
+    } else if (
+      (ch === ';' || ch === '|' || ch === '\n' || ch === '&') &&
+      // ">&" and "&>" are redirections, not separators
+      !(ch === '&' && (command[i - 1] === '>' || command[i + 1] === '>'))
+    ) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  result.push(current.trim());
+  return result.filter(Boolean);
+}
+
+// Split a command into words, dropping the quotes around quoted ones
+function words(command: string): string[] {
+  const result: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(command))) {
+    result.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return result;
+}
+
+// Paths a single command writes to: redirection targets and the path
+// arguments of file-changing commands
+function writtenPaths(command: string): string[] {
+  const args = words(withoutAssignments(command));
+  const targets: string[] = [];
+  const operands: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const redirect = /^(?:\d*|&)>>?(.*)$/.exec(args[i]);
+    if (redirect) {
+      const target = redirect[1] || args[++i];
+      // 2>&1 and the like name a descriptor, not a file
+      if (target && !target.startsWith('&')) {
+        targets.push(target);
+      }
+    } else if (i > 0 && !args[i].startsWith('-')) {
+      operands.push(args[i]);
+    }
+  }
+
+  const mode = WRITING_COMMANDS[path.basename(args[0] ?? '')];
+  if (mode === 'all') {
+    targets.push(...operands);
+  } else if (mode === 'last' && operands.length > 1) {
+    targets.push(operands[operands.length - 1]);
+  } else if (mode === 'after-first') {
+    targets.push(...operands.slice(1));
+  }
+  return targets;
+}
+
+function isOutside(target: string, cwd: string, projectPath: string): boolean {
+  if (target.startsWith('$') || target.startsWith('/dev/')) {
+    return false; // Unknown until run, or not a file
+  }
+  const resolved =
+    target === '~' || target.startsWith('~/')
+      ? path.join(os.homedir(), target.slice(1))
+      : path.resolve(cwd, target);
+  return !isWithin(resolved, projectPath);
+}
+
+function combine(found: Array<{ level: RiskLevel; reason: string }>): Risk {
+  const sorted = [...found].sort(
+    (a, b) => LEVELS.indexOf(b.level) - LEVELS.indexOf(a.level),
+  );
+  return {
+    level: sorted[0]?.level ?? 'low',
+    reasons: [...new Set(sorted.map((f) => f.reason))],
+  };
+}
+
+/**
+ * Break a shell tool call down for review. `dirPath` is the tool's
+ * dir_path argument, relative to the project.
+ */
+export function describeShellCommand(
+  command: string,
+  dirPath: string | undefined,
+  projectPath: string,
+): ShellCommandInfo {
+  const stripped = stripShellWrapper(command);
+  const cwd = path.resolve(projectPath, dirPath ?? '');
+  return {
+    command: stripped,
+    commands: splitCommands(stripped),
+    roots: [...new Set(getCommandRoots(stripped))],
+    cwd: path.relative(projectPath, cwd) || '.',
+  };
+}
+
+/**
+ * Rate a shell command by pattern: destructive or privileged commands,
+ * downloaded scripts, and writes outside the project are high risk
+ */
+export function classifyShellCommand(
+  info: ShellCommandInfo,
+  projectPath: string,
+): Risk {
+  const found: Array<{ level: RiskLevel; reason: string }> = [];
+
+  // Commands that can't be parsed can't be checked either
+  if (info.commands.length === 0) {
+    found.push({ level: 'medium', reason: 'Could not parse the command' });
+  }
+
+  for (const rule of PIPELINE_RULES) {
+    if (rule.pattern.test(info.command)) {
+      found.push(rule);
+    }
+  }
+
+  for (const command of info.commands.map(withoutAssignments)) {
+    for (const rule of COMMAND_RULES) {
+      if (rule.pattern.test(command)) {
+        found.push(rule);
+      }
+    }
+  }
+
+  let cwd = path.resolve(projectPath, info.cwd);
+  for (const command of rawCommands(info.command)) {
+    for (const target of writtenPaths(command)) {
+      if (isOutside(target, cwd, projectPath)) {
+        found.push({
+          level: 'high',
+          reason: `Writes outside the project: ${target}`,
+        });
+      }
+    }
+
+    // Later commands of a chain run where a `cd` left them
+    const [program, dir] = words(withoutAssignments(command));
+    if (program === 'cd') {
+      cwd =
+        !dir || dir === '~' || dir.startsWith('~/')
+          ? path.join(os.homedir(), dir?.slice(1) ?? '')
+          : path.resolve(cwd, dir);
+    }
+  }
+
+  return combine(found);
+}
+
+/**
+ * Risk of any call waiting for confirmation. Edits are confined to the
+ * project by the tools themselves; shell commands are classified.
+ */
+export function confirmationRisk(
+  details: ToolCallConfirmationDetails,
+  shell: ShellCommandInfo | null,
+  projectPath: string,
+): Risk {
+  switch (details.type) {
+    case 'exec':
+      return shell
+        ? classifyShellCommand(shell, projectPath)
+        : { level: 'medium', reasons: ['Runs a shell command'] };
+    case 'edit':
+      return { level: 'medium', reasons: ['Changes a file'] };
+    case 'mcp':
+      return {
+        level: 'medium',
+        reasons: [`Runs a tool of MCP server ${details.serverName}`],
+      };
+    default:
+      return { level: 'low', reasons: [] };
+  }
+}
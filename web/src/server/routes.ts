@@ -9,18 +9,102 @@
  */
 
 import type { Express, Request, Response } from 'express';
-import type { SessionManager } from './session.js';
+import type { SessionManager, WebSession } from './session.js';
 import type { WebConfig } from './config.js';
+import type { Permissions } from './permissions.js';
+import type { CommandRegistry } from './commands.js';
+import { validateMcpServer } from './mcp.js';
+import { parseOutcome, readPolicy, removePolicyRule } from './policy.js';
+import {
+  PathAccessError,
+  resolveProjectPath,
+  resolveWithin,
+  type ResolveOptions,
+} from './paths.js';
 import fs from 'node:fs/promises';
 import { createReadStream } from 'node:fs';
 import path from 'node:path';
 import multer from 'multer';
 
+// Session-scoped routes name their session via the X-Session-Id header
+// (or a sessionId query parameter for plain links)
+function getSessionId(req: Request): string {
+  return (
+    req.header('x-session-id') || (req.query.sessionId as string) || ''
+  );
+}
+
+// Set by the access control middleware for every authenticated request
+function getPermissions(res: Response): Permissions {
+  return res.locals.permissions as Permissions;
+}
+
+function denyReadOnly(res: Response) {
+  return res.status(403).json({ error: 'Access denied: read-only access' });
+}
+
+function sendPathError(res: Response, error: unknown) {
+  if (error instanceof PathAccessError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  return res.status(500).json({
+    error: error instanceof Error ? error.message : 'Failed to resolve path',
+  });
+}
+
+// A client path inside the session's project, or null once an error
+// response has been sent
+async function resolveProjectFile(
+  res: Response,
+  projectPath: string,
+  relativePath: string,
+  options?: ResolveOptions,
+): Promise<string | null> {
+  try {
+    return await resolveWithin(projectPath, relativePath, options);
+  } catch (error) {
+    sendPathError(res, error);
+    return null;
+  }
+}
+
 export function setupRoutes(
   app: Express,
   sessionManager: SessionManager,
   config: WebConfig,
+  commands: CommandRegistry,
 ) {
+  // The request's session, if the user may see its project. Otherwise the
+  // error response has been sent and null is returned.
+  const requireSession = (req: Request, res: Response): WebSession | null => {
+    const session = sessionManager.getSession(getSessionId(req));
+    if (!session) {
+      res.status(400).json({ error: 'No active session' });
+      return null;
+    }
+    if (!getPermissions(res).canRead(session.projectPath)) {
+      res.status(403).json({ error: 'Access denied' });
+      return null;
+    }
+    return session;
+  };
+
+  // Like requireSession, but the user must also be allowed to drive it
+  const requireRunnableSession = (
+    req: Request,
+    res: Response,
+  ): WebSession | null => {
+    const session = requireSession(req, res);
+    if (
+      session &&
+      !getPermissions(res).canRun(session.projectPath, session.readOnly)
+    ) {
+      denyReadOnly(res);
+      return null;
+    }
+    return session;
+  };
+
   // Health check
   app.get('/api/health', (req: Request, res: Response) => {
     res.json({ status: 'ok' });
@@ -35,9 +119,13 @@ export function setupRoutes(
       error?: string;
     }> = [];
 
-    console.log('Checking project roots:', config.projectRoots);
+    const permissions = getPermissions(res);
+    const visibleRoots = config.projectRoots.filter((root) =>
+      permissions.canSeeRoot(root),
+    );
+    console.log('Checking project roots:', visibleRoots);
 
-    for (const rootPath of config.projectRoots) {
+    for (const rootPath of visibleRoots) {
       try {
         const stat = await fs.stat(rootPath);
         if (stat.isDirectory()) {
@@ -80,7 +168,11 @@ export function setupRoutes(
     }
 
     // Security: Ensure the requested root is in the allowed list
-    if (!config.projectRoots.includes(rootPath)) {
+    const permissions = getPermissions(res);
+    if (
+      !config.projectRoots.includes(rootPath) ||
+      !permissions.canSeeRoot(rootPath)
+    ) {
       return res
         .status(403)
         .json({ error: 'Access denied: not an allowed root' });
@@ -90,10 +182,15 @@ export function setupRoutes(
       const entries = await fs.readdir(rootPath, { withFileTypes: true });
       const projects = entries
         .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
-        .map((entry) => ({
-          name: entry.name,
-          path: path.join(rootPath, entry.name),
-        }))
+        .map((entry) => {
+          const projectPath = path.join(rootPath, entry.name);
+          return {
+            name: entry.name,
+            path: projectPath,
+            access: permissions.accessFor(projectPath),
+          };
+        })
+        .filter((project) => project.access !== null)
         .sort((a, b) => a.name.localeCompare(b.name));
 
       res.json({ projects, root: rootPath });
@@ -105,15 +202,90 @@ export function setupRoutes(
     }
   });
 
-  // Get current session info
+  // List sessions: saved ones from disk plus any active in memory
+  app.get('/api/sessions', async (req: Request, res: Response) => {
+    try {
+      const permissions = getPermissions(res);
+      const saved = (await sessionManager.listSavedSessions()).filter((meta) =>
+        permissions.canRead(meta.projectPath),
+      );
+      const active = new Set(
+        sessionManager.listSessions().map((session) => session.id),
+      );
+
+      const sessions = saved.map((meta) => ({
+        ...meta,
+        projectName: path.basename(meta.projectPath),
+        active: active.has(meta.id),
+        busy: sessionManager.isBusy(meta.id),
+      }));
+
+      res.json({ sessions });
+    } catch (error) {
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : 'Failed to list sessions',
+      });
+    }
+  });
+
+  // Resume a saved session
+  app.post('/api/sessions/:id/resume', async (req: Request, res: Response) => {
+    const sessionId = req.params.id as string;
+
+    try {
+      const saved = (await sessionManager.listSavedSessions()).find(
+        (meta) => meta.id === sessionId,
+      );
+      const projectPath =
+        saved?.projectPath ?? sessionManager.getProjectPath(sessionId);
+      if (!projectPath) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      // Security: The project must still resolve inside an allowed root,
+      // and the user must (still) have access to it
+      let resolved: string;
+      try {
+        resolved = await resolveProjectPath(projectPath, config.projectRoots);
+      } catch (error) {
+        return sendPathError(res, error);
+      }
+      const access = getPermissions(res).accessFor(resolved);
+      if (!access) {
+        return res
+          .status(403)
+          .json({ error: 'Access denied: project not in allowed roots' });
+      }
+
+      const session = await sessionManager.resumeSession(sessionId, {
+        readOnly: access === 'read',
+      });
+      res.json({
+        sessionId: session.id,
+        projectPath: session.projectPath,
+        projectName: path.basename(session.projectPath),
+        readOnly: session.readOnly,
+      });
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : 'Failed to resume session',
+      });
+    }
+  });
+
+  // Get session info
   app.get('/api/session', (req: Request, res: Response) => {
-    const session = sessionManager.getSession();
-    if (session) {
+    const session = sessionManager.getSession(getSessionId(req));
+    if (session && getPermissions(res).canRead(session.projectPath)) {
       res.json({
         active: true,
         id: session.id,
         projectPath: session.projectPath,
         projectName: path.basename(session.projectPath),
+        readOnly: session.readOnly,
       });
     } else {
       res.json({ active: false });
@@ -123,39 +295,44 @@ export function setupRoutes(
   // Create/change project session
   app.post('/api/session', async (req: Request, res: Response) => {
     try {
-      const { projectPath } = req.body;
-
-      if (!projectPath) {
+      if (!req.body.projectPath) {
         return res.status(400).json({ error: 'projectPath is required' });
       }
 
-      // Security: Ensure the project path is under one of the allowed roots
-      const isAllowed = config.projectRoots.some(
-        (root) =>
-          projectPath.startsWith(root + path.sep) || projectPath === root,
-      );
+      // Security: Ensure the project (symlinks resolved) is under one of the
+      // allowed roots, then that the user has access to it
+      let projectPath: string;
+      try {
+        projectPath = await resolveProjectPath(
+          req.body.projectPath,
+          config.projectRoots,
+        );
+      } catch (error) {
+        return sendPathError(res, error);
+      }
 
-      if (!isAllowed) {
+      const access = getPermissions(res).accessFor(projectPath);
+      if (!access) {
         return res
           .status(403)
           .json({ error: 'Access denied: project not in allowed roots' });
       }
 
-      // Verify the path exists and is a directory
-      try {
-        const stat = await fs.stat(projectPath);
-        if (!stat.isDirectory()) {
-          return res.status(400).json({ error: 'Path is not a directory' });
-        }
-      } catch {
-        return res.status(400).json({ error: 'Directory does not exist' });
+      // Verify the path is a directory
+      const stat = await fs.stat(projectPath);
+      if (!stat.isDirectory()) {
+        return res.status(400).json({ error: 'Path is not a directory' });
       }
 
-      const sessionId = await sessionManager.createSession(projectPath);
+      const readOnly = access === 'read';
+      const sessionId = await sessionManager.createSession(projectPath, {
+        readOnly,
+      });
       res.json({
         sessionId,
         projectPath,
         projectName: path.basename(projectPath),
+        readOnly,
       });
     } catch (error) {
       console.error('Failed to create session:', error);
@@ -166,10 +343,14 @@ export function setupRoutes(
     }
   });
 
-  // Close session
+  // Close session: it stops any run, so it takes the same rights as
+  // starting one
   app.delete('/api/session', async (req: Request, res: Response) => {
+    const session = requireRunnableSession(req, res);
+    if (!session) return;
+
     try {
-      await sessionManager.closeSession();
+      await sessionManager.closeSession(session.id);
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({
@@ -179,16 +360,267 @@ export function setupRoutes(
     }
   });
 
+  // Model fallback chain with cooldowns, plus the session's current model
+  app.get('/api/models/status', (req: Request, res: Response) => {
+    const session = sessionManager.getSession(getSessionId(req));
+    const visible =
+      session && getPermissions(res).canRead(session.projectPath);
+    res.json({
+      models: sessionManager.getModelStatus(),
+      currentModel: visible ? session.model : null,
+      pinnedModel: visible ? session.pinnedModel : null,
+    });
+  });
+
+  // Pick the session's model (kept until changed again)
+  app.put('/api/session/model', async (req: Request, res: Response) => {
+    const session = requireRunnableSession(req, res);
+    if (!session) return;
+
+    const { model } = req.body;
+    const known = sessionManager.getModelStatus().map((m) => m.model);
+    if (typeof model !== 'string' || !known.includes(model)) {
+      return res.status(400).json({ error: `Unknown model: ${model}` });
+    }
+    if (sessionManager.isBusy(session.id)) {
+      return res
+        .status(409)
+        .json({ error: 'Cannot change model while a request is in progress' });
+    }
+
+    try {
+      await sessionManager.setModel(session.id, model);
+      res.json({ success: true, model });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to set model',
+      });
+    }
+  });
+
+  // Slash commands understood by the chat
+  app.get('/api/commands', (_req: Request, res: Response) => {
+    res.json({ commands: commands.list() });
+  });
+
+  // Tools in the session's registry, with their schemas and where they
+  // come from
+  app.get('/api/tools', (req: Request, res: Response) => {
+    const session = requireSession(req, res);
+    if (!session) return;
+
+    res.json({ tools: sessionManager.listTools(session.id) });
+  });
+
+  // Enable or disable tools for the session:
+  // { "allow": ["name", ...], "deny": ["name", ...] }
+  app.put('/api/session/tools', async (req: Request, res: Response) => {
+    const session = requireRunnableSession(req, res);
+    if (!session) return;
+
+    const { allow = [], deny = [] } = req.body;
+    const isNameList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every((v) => typeof v === 'string');
+    if (!isNameList(allow) || !isNameList(deny)) {
+      return res
+        .status(400)
+        .json({ error: 'allow and deny must be lists of tool names' });
+    }
+    const known = new Set(
+      sessionManager.listTools(session.id).map((tool) => tool.name),
+    );
+    const unknown = [...allow, ...deny].filter((name) => !known.has(name));
+    if (unknown.length > 0) {
+      return res
+        .status(400)
+        .json({ error: `Unknown tool: ${unknown.join(', ')}` });
+    }
+
+    try {
+      const denied = await sessionManager.setToolAccess(session.id, {
+        allow,
+        deny,
+      });
+      res.json({ success: true, denied });
+    } catch (error) {
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : 'Failed to update tools',
+      });
+    }
+  });
+
+  // Like requireRunnableSession, for changes to the project's settings
+  const requireWritableSession = (
+    req: Request,
+    res: Response,
+  ): WebSession | null => {
+    const session = requireRunnableSession(req, res);
+    if (
+      session &&
+      (session.readOnly || !getPermissions(res).canWrite(session.projectPath))
+    ) {
+      denyReadOnly(res);
+      return null;
+    }
+    return session;
+  };
+
+  // MCP servers configured in the project's .gemini/settings.json, with
+  // connection status and discovered tools
+  app.get('/api/mcp', async (req: Request, res: Response) => {
+    const session = requireSession(req, res);
+    if (!session) return;
+
+    try {
+      res.json({ servers: await sessionManager.listMcpServers(session.id) });
+    } catch (error) {
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : 'Failed to list MCP servers',
+      });
+    }
+  });
+
+  // Add a server: { "name": "...", "server": { "command": "..." } }
+  app.post('/api/mcp', async (req: Request, res: Response) => {
+    const session = requireWritableSession(req, res);
+    if (!session) return;
+
+    const { name, server } = req.body;
+    const invalid = validateMcpServer(name, server);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    try {
+      const existing = await sessionManager.listMcpServers(session.id);
+      if (existing.some((s) => s.name === name)) {
+        return res
+          .status(409)
+          .json({ error: `MCP server already exists: ${name}` });
+      }
+      await sessionManager.addMcpServer(session.id, name, server);
+      res.json({ servers: await sessionManager.listMcpServers(session.id) });
+    } catch (error) {
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : 'Failed to add MCP server',
+      });
+    }
+  });
+
+  app.delete('/api/mcp/:name', async (req: Request, res: Response) => {
+    const session = requireWritableSession(req, res);
+    if (!session) return;
+
+    const name = req.params.name as string;
+    try {
+      const existing = await sessionManager.listMcpServers(session.id);
+      if (!existing.some((s) => s.name === name)) {
+        return res.status(404).json({ error: `Unknown MCP server: ${name}` });
+      }
+      await sessionManager.removeMcpServer(session.id, name);
+      res.json({ servers: await sessionManager.listMcpServers(session.id) });
+    } catch (error) {
+      res.status(500).json({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to remove MCP server',
+      });
+    }
+  });
+
+  // Reconnect a server and rediscover its tools
+  app.post('/api/mcp/:name/restart', async (req: Request, res: Response) => {
+    const session = requireWritableSession(req, res);
+    if (!session) return;
+
+    const name = req.params.name as string;
+    try {
+      const existing = await sessionManager.listMcpServers(session.id);
+      if (!existing.some((s) => s.name === name)) {
+        return res.status(404).json({ error: `Unknown MCP server: ${name}` });
+      }
+      await sessionManager.restartMcpServer(session.id, name);
+      res.json({ servers: await sessionManager.listMcpServers(session.id) });
+    } catch (error) {
+      res.status(500).json({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to restart MCP server',
+      });
+    }
+  });
+
+  // GEMINI.md memory loaded for the session's project
+  app.get('/api/memory', (req: Request, res: Response) => {
+    const session = requireSession(req, res);
+    if (!session) return;
+
+    res.json(sessionManager.getMemory(session.id));
+  });
+
+  // Append a fact to the project's .gemini/GEMINI.md and reload the memory
+  app.post('/api/memory', async (req: Request, res: Response) => {
+    const session = requireWritableSession(req, res);
+    if (!session) return;
+
+    const { fact } = req.body;
+    if (typeof fact !== 'string' || !fact.trim()) {
+      return res.status(400).json({ error: 'fact is required' });
+    }
+
+    try {
+      res.json(await sessionManager.addMemory(session.id, fact));
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to add memory',
+      });
+    }
+  });
+
+  // Re-read the GEMINI.md files into the live session
+  app.post('/api/memory/refresh', async (req: Request, res: Response) => {
+    const session = requireRunnableSession(req, res);
+    if (!session) return;
+
+    try {
+      res.json(await sessionManager.refreshMemory(session.id));
+    } catch (error) {
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : 'Failed to refresh memory',
+      });
+    }
+  });
+
+  // Token usage and latency of the session, in total and per model
+  app.get('/api/session/stats', (req: Request, res: Response) => {
+    const session = requireSession(req, res);
+    if (!session) return;
+
+    res.json(sessionManager.getStats(session.id));
+  });
+
   // Get chat history
   app.get('/api/chat/history', (req: Request, res: Response) => {
-    const history = sessionManager.getHistory();
+    const session = requireSession(req, res);
+    if (!session) return;
+
+    const history = sessionManager.getHistory(session.id);
     res.json({ history });
   });
 
   // Reset chat
   app.post('/api/chat/reset', async (req: Request, res: Response) => {
+    const session = requireRunnableSession(req, res);
+    if (!session) return;
+
     try {
-      await sessionManager.resetChat();
+      await sessionManager.resetChat(session.id);
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({
@@ -198,38 +630,106 @@ export function setupRoutes(
   });
 
   // Tool confirmation
-  app.post('/api/tool/confirm', (req: Request, res: Response) => {
-    const { confirmed } = req.body;
-    if (sessionManager.hasPendingConfirmation()) {
-      sessionManager.confirmTool(confirmed === true);
+  app.post('/api/tool/confirm', async (req: Request, res: Response) => {
+    const session = requireRunnableSession(req, res);
+    if (!session) return;
+
+    const { callId, outcome, confirmed, command, newContent, allowRoots } =
+      req.body;
+    const answer =
+      outcome !== undefined
+        ? parseOutcome(outcome)
+        : parseOutcome(confirmed === true ? 'proceed_once' : 'cancel');
+    if (!answer) {
+      return res
+        .status(400)
+        .json({ error: `Unknown confirmation outcome: ${outcome}` });
+    }
+    const call = typeof callId === 'string' ? callId : undefined;
+    if (!sessionManager.hasPendingConfirmation(session.id, call)) {
+      return res.status(400).json({ error: 'No pending confirmation' });
+    }
+
+    try {
+      await sessionManager.confirmTool(
+        session.id,
+        call,
+        answer,
+        res.locals.username as string,
+        {
+          command: typeof command === 'string' ? command : undefined,
+          newContent: typeof newContent === 'string' ? newContent : undefined,
+          allowRoots: Array.isArray(allowRoots)
+            ? allowRoots.filter(
+                (root: unknown): root is string => typeof root === 'string',
+              )
+            : undefined,
+        },
+      );
       res.json({ success: true });
-    } else {
-      res.status(400).json({ error: 'No pending confirmation' });
+    } catch (error) {
+      res.status(400).json({
+        error:
+          error instanceof Error ? error.message : 'Failed to confirm tool',
+      });
+    }
+  });
+
+  // Rules that approve tool calls in the session's project without asking
+  app.get('/api/policy', async (req: Request, res: Response) => {
+    const session = requireSession(req, res);
+    if (!session) return;
+
+    try {
+      res.json({ rules: await readPolicy(session.projectPath) });
+    } catch (error) {
+      res.status(500).json({
+        error: error instanceof Error ? error.message : 'Failed to read policy',
+      });
+    }
+  });
+
+  app.delete('/api/policy/:id', async (req: Request, res: Response) => {
+    const session = requireWritableSession(req, res);
+    if (!session) return;
+
+    try {
+      const removed = await removePolicyRule(
+        session.projectPath,
+        req.params.id as string,
+      );
+      if (!removed) {
+        return res.status(404).json({ error: 'Unknown policy rule' });
+      }
+      res.json({ rules: await readPolicy(session.projectPath) });
+    } catch (error) {
+      res.status(500).json({
+        error:
+          error instanceof Error ? error.message : 'Failed to revoke rule',
+      });
     }
   });
 
-  // Cancel current request
+  // Cancel current request: stopping a run takes the same rights as
+  // starting one
   app.post('/api/chat/cancel', (req: Request, res: Response) => {
-    sessionManager.cancelCurrentRequest();
+    const session = requireRunnableSession(req, res);
+    if (!session) return;
+
+    sessionManager.cancelCurrentRequest(session.id);
     res.json({ success: true });
   });
 
   // List files in project
   app.get('/api/files', async (req: Request, res: Response) => {
-    const projectPath = sessionManager.getProjectPath();
-    if (!projectPath) {
-      return res.status(400).json({ error: 'No active session' });
-    }
+    const session = requireSession(req, res);
+    if (!session) return;
+    const { projectPath } = session;
 
     const relativePath = (req.query.path as string) || '';
-    const fullPath = path.join(projectPath, relativePath);
-
-    // Security: Ensure we're not going outside project directory
-    const normalizedFull = path.normalize(fullPath);
-    const normalizedProject = path.normalize(projectPath);
-    if (!normalizedFull.startsWith(normalizedProject)) {
-      return res.status(403).json({ error: 'Access denied' });
-    }
+    // Security: Stay inside the project, symlinks included
+    const fullPath = await resolveProjectFile(res, projectPath, relativePath);
+    if (!fullPath) return;
 
     try {
       const entries = await fs.readdir(fullPath, { withFileTypes: true });
@@ -257,24 +757,18 @@ export function setupRoutes(
 
   // Read file content
   app.get('/api/files/content', async (req: Request, res: Response) => {
-    const projectPath = sessionManager.getProjectPath();
-    if (!projectPath) {
-      return res.status(400).json({ error: 'No active session' });
-    }
+    const session = requireSession(req, res);
+    if (!session) return;
+    const { projectPath } = session;
 
     const relativePath = req.query.path as string;
     if (!relativePath) {
       return res.status(400).json({ error: 'path is required' });
     }
 
-    const fullPath = path.join(projectPath, relativePath);
-
-    // Security: Ensure we're not going outside project directory
-    const normalizedFull = path.normalize(fullPath);
-    const normalizedProject = path.normalize(projectPath);
-    if (!normalizedFull.startsWith(normalizedProject)) {
-      return res.status(403).json({ error: 'Access denied' });
-    }
+    // Security: Stay inside the project, symlinks included
+    const fullPath = await resolveProjectFile(res, projectPath, relativePath);
+    if (!fullPath) return;
 
     try {
       const content = await fs.readFile(fullPath, 'utf-8');
@@ -288,10 +782,9 @@ export function setupRoutes(
 
   // Write file content
   app.post('/api/files/write', async (req: Request, res: Response) => {
-    const projectPath = sessionManager.getProjectPath();
-    if (!projectPath) {
-      return res.status(400).json({ error: 'No active session' });
-    }
+    const session = requireSession(req, res);
+    if (!session) return;
+    const { projectPath } = session;
 
     const { path: relativePath, content } = req.body;
     if (!relativePath) {
@@ -301,13 +794,11 @@ export function setupRoutes(
       return res.status(400).json({ error: 'content is required' });
     }
 
-    const fullPath = path.join(projectPath, relativePath);
-
-    // Security: Ensure we're not going outside project directory
-    const normalizedFull = path.normalize(fullPath);
-    const normalizedProject = path.normalize(projectPath);
-    if (!normalizedFull.startsWith(normalizedProject)) {
-      return res.status(403).json({ error: 'Access denied' });
+    // Security: Stay inside the project, symlinks included
+    const fullPath = await resolveProjectFile(res, projectPath, relativePath);
+    if (!fullPath) return;
+    if (!getPermissions(res).canWrite(fullPath)) {
+      return denyReadOnly(res);
     }
 
     try {
@@ -324,24 +815,18 @@ export function setupRoutes(
 
   // Download file
   app.get('/api/files/download', async (req: Request, res: Response) => {
-    const projectPath = sessionManager.getProjectPath();
-    if (!projectPath) {
-      return res.status(400).json({ error: 'No active session' });
-    }
+    const session = requireSession(req, res);
+    if (!session) return;
+    const { projectPath } = session;
 
     const relativePath = req.query.path as string;
     if (!relativePath) {
       return res.status(400).json({ error: 'path is required' });
     }
 
-    const fullPath = path.join(projectPath, relativePath);
-
-    // Security: Ensure we're not going outside project directory
-    const normalizedFull = path.normalize(fullPath);
-    const normalizedProject = path.normalize(projectPath);
-    if (!normalizedFull.startsWith(normalizedProject)) {
-      return res.status(403).json({ error: 'Access denied' });
-    }
+    // Security: Stay inside the project, symlinks included
+    const fullPath = await resolveProjectFile(res, projectPath, relativePath);
+    if (!fullPath) return;
 
     try {
       const stat = await fs.stat(fullPath);
@@ -376,10 +861,9 @@ export function setupRoutes(
     '/api/files/upload',
     upload.single('file'),
     async (req: Request, res: Response) => {
-      const projectPath = sessionManager.getProjectPath();
-      if (!projectPath) {
-        return res.status(400).json({ error: 'No active session' });
-      }
+      const session = requireSession(req, res);
+      if (!session) return;
+      const { projectPath } = session;
 
       const targetDir = (req.body.path as string) || '';
       const file = req.file;
@@ -388,13 +872,15 @@ export function setupRoutes(
         return res.status(400).json({ error: 'No file provided' });
       }
 
-      const fullPath = path.join(projectPath, targetDir, file.originalname);
-
-      // Security: Ensure we're not going outside project directory
-      const normalizedFull = path.normalize(fullPath);
-      const normalizedProject = path.normalize(projectPath);
-      if (!normalizedFull.startsWith(normalizedProject)) {
-        return res.status(403).json({ error: 'Access denied' });
+      // Security: Stay inside the project, symlinks included
+      const fullPath = await resolveProjectFile(
+        res,
+        projectPath,
+        path.join(targetDir, file.originalname),
+      );
+      if (!fullPath) return;
+      if (!getPermissions(res).canWrite(fullPath)) {
+        return denyReadOnly(res);
       }
 
       try {
@@ -418,27 +904,29 @@ export function setupRoutes(
 
   // Delete file
   app.delete('/api/files', async (req: Request, res: Response) => {
-    const projectPath = sessionManager.getProjectPath();
-    if (!projectPath) {
-      return res.status(400).json({ error: 'No active session' });
-    }
+    const session = requireSession(req, res);
+    if (!session) return;
+    const { projectPath } = session;
 
     const relativePath = req.query.path as string;
     if (!relativePath) {
       return res.status(400).json({ error: 'path is required' });
     }
 
-    const fullPath = path.join(projectPath, relativePath);
-
-    // Security: Ensure we're not going outside project directory
-    const normalizedFull = path.normalize(fullPath);
-    const normalizedProject = path.normalize(projectPath);
-    if (!normalizedFull.startsWith(normalizedProject)) {
-      return res.status(403).json({ error: 'Access denied' });
+    // Security: Stay inside the project; a symlink is deleted, not its target
+    const fullPath = await resolveProjectFile(res, projectPath, relativePath, {
+      followFinalSymlink: false,
+    });
+    if (!fullPath) return;
+    if (fullPath === path.resolve(projectPath)) {
+      return res.status(403).json({ error: 'Cannot delete the project root' });
+    }
+    if (!getPermissions(res).canWrite(fullPath)) {
+      return denyReadOnly(res);
     }
 
     try {
-      const stat = await fs.stat(fullPath);
+      const stat = await fs.lstat(fullPath);
       if (stat.isDirectory()) {
         await fs.rmdir(fullPath, { recursive: true });
       } else {
@@ -454,23 +942,20 @@ export function setupRoutes(
 
   // Create directory
   app.post('/api/files/mkdir', async (req: Request, res: Response) => {
-    const projectPath = sessionManager.getProjectPath();
-    if (!projectPath) {
-      return res.status(400).json({ error: 'No active session' });
-    }
+    const session = requireSession(req, res);
+    if (!session) return;
+    const { projectPath } = session;
 
     const { path: relativePath } = req.body;
     if (!relativePath) {
       return res.status(400).json({ error: 'path is required' });
     }
 
-    const fullPath = path.join(projectPath, relativePath);
-
-    // Security: Ensure we're not going outside project directory
-    const normalizedFull = path.normalize(fullPath);
-    const normalizedProject = path.normalize(projectPath);
-    if (!normalizedFull.startsWith(normalizedProject)) {
-      return res.status(403).json({ error: 'Access denied' });
+    // Security: Stay inside the project, symlinks included
+    const fullPath = await resolveProjectFile(res, projectPath, relativePath);
+    if (!fullPath) return;
+    if (!getPermissions(res).canWrite(fullPath)) {
+      return denyReadOnly(res);
     }
 
     try {
@@ -18,23 +18,88 @@ import {
   AuthType,
   CoreToolScheduler,
   ToolConfirmationOutcome,
+  WriteFileTool,
+  EditTool,
+  ShellTool,
+  MemoryTool,
+  type AnyToolInvocation,
   type ServerGeminiStreamEvent,
   type ToolCallRequestInfo,
+  type ToolCall,
   type CompletedToolCall,
   type ToolCallConfirmationDetails,
+  type ToolConfirmationPayload,
+  type ChatCompressionInfo,
 } from '@google/gemini-cli-core';
 import type { Content, Part } from '@google/genai';
+import type { SessionStore } from './storage.js';
+import type { CommandResult } from './commands.js';
+import { deniedToolCall, listTools, type ToolInfo } from './tools.js';
+import {
+  describeMcpServers,
+  readMcpSettings,
+  restartMcpServer,
+  startMcpServer,
+  stopMcpServer,
+  toServerConfigs,
+  writeMcpSettings,
+  type McpServerInfo,
+  type McpServerSettings,
+} from './mcp.js';
+import {
+  addPolicyRule,
+  confirmationOutcomes,
+  findAllowingRule,
+  isAlwaysOutcome,
+  policyMatchFor,
+  readPolicy,
+  type PolicyRule,
+} from './policy.js';
+import {
+  confirmationRisk,
+  describeShellCommand,
+  type Risk,
+  type ShellCommandInfo,
+} from './risk.js';
+import {
+  addMemoryFact,
+  getMemoryInfo,
+  loadMemory,
+  type MemoryInfo,
+} from './memory.js';
+import { parseRetryDelayMs, type ModelAvailability } from './models.js';
+import {
+  SessionUsage,
+  tokenCounts,
+  type TurnUsage,
+  type UsageStats,
+} from './usage.js';
 
 const GEMINI_DIR = '.gemini';
 
-// Model fallback chain for quota exhaustion
-const MODEL_FALLBACK_CHAIN = [
-  'gemini-2.5-pro',
-  'gemini-2.5-flash',
-  'gemini-2.0-flash',
-  'gemini-1.5-flash',
+// Stream events kept per session for clients that reconnect mid-run
+const EVENT_BUFFER_SIZE = 1000;
+
+// Tools that change files or run commands, unavailable in read-only sessions
+const MUTATING_TOOLS = [
+  WriteFileTool.Name,
+  EditTool.Name,
+  ShellTool.Name,
+  MemoryTool.Name,
 ];
 
+// Lifecycle steps of a tool call sent as tool_status events
+const REPORTED_STATUSES: ToolStatus[] = [
+  'validating',
+  'scheduled',
+  'executing',
+  'error',
+];
+
+function isReportedStatus(status: string): status is ToolStatus {
+  return (REPORTED_STATUSES as string[]).includes(status);
+}
+
 // Logger utility
 function log(category: string, message: string, data?: unknown) {
   const timestamp = new Date().toISOString();
@@ -55,30 +120,81 @@ function logError(category: string, message: string, error?: unknown) {
 export interface WebSession {
   id: string;
   projectPath: string;
+  readOnly: boolean; // Opened with read-only access: no mutating tools
   config: Config;
   abortController: AbortController | null;
-  currentModelIndex: number; // Index in MODEL_FALLBACK_CHAIN
+  model: string; // Current model, normally one from the fallback chain
+  pinnedModel: string | null; // Model the user picked; preferred when available
+  usage: SessionUsage;
+  deniedTools: Set<string>; // Disabled by the user for this session
+  allowedCommands: Set<string>; // Shell root commands run without asking
+  // Calls waiting for the user, keyed by callId, in the order asked
+  pendingToolConfirmations: Map<string, ToolConfirmation>;
+  // Approved calls run one after another, in the order answered
+  toolQueue: Promise<void>;
+  title: string; // First user message, shown in the session list
+  createdAt: Date;
+  // Resumable event stream
+  streamId: string; // Changes whenever sequence numbers restart
+  eventSeq: number; // Sequence number of the last published event
+  eventBuffer: SequencedEvent[];
+  listeners: Set<(event: SequencedEvent) => void>;
+  runStart: RunStart | null; // Set while a sendMessage run is in progress
+}
+
+export interface SequencedEvent {
+  seq: number;
+  event: WebStreamEvent;
+}
+
+// Where the current run began, used to rebuild a consistent snapshot
+interface RunStart {
+  seq: number; // Last event sequence before the run
+  historyLength: number; // History entries before the run
 }
 
 export interface ToolConfirmation {
+  callId: string;
   toolName: string;
   args: Record<string, unknown>;
   details: ToolCallConfirmationDetails;
-  onConfirm: (outcome: ToolConfirmationOutcome) => void;
+  outcomes: ToolConfirmationOutcome[]; // Answers the user may give
+  shell: ShellCommandInfo | null; // For shell commands
+  risk: Risk;
+  // As sent, for clients that attach while the call waits
+  event: Extract<WebStreamEvent, { type: 'tool_confirm_request' }>;
+  onConfirm: (
+    outcome: ToolConfirmationOutcome,
+    payload?: ToolConfirmationPayload,
+  ) => Promise<void>;
 }
 
-export class SessionManager {
-  private session: WebSession | null = null;
-  private pendingToolConfirmation: ToolConfirmation | null = null;
+export interface ConfirmOptions {
+  command?: string; // Commands a "proceed_always" shell approval covers
+  newContent?: string; // The user's version of a proposed edit or write
+  allowRoots?: string[]; // Root commands to run without asking from now on
+}
 
-  async createSession(projectPath: string): Promise<string> {
-    log('Session', `Creating session for project: ${projectPath}`);
+export interface SessionOptions {
+  readOnly?: boolean;
+}
 
-    // Close existing session if any
-    if (this.session) {
-      log('Session', 'Closing existing session');
-      await this.closeSession();
-    }
+export class SessionManager {
+  // Active sessions keyed by WebSession.id
+  private sessions = new Map<string, WebSession>();
+
+  constructor(
+    private readonly store: SessionStore,
+    private readonly models: ModelAvailability,
+  ) {}
+
+  async createSession(
+    projectPath: string,
+    { readOnly = false }: SessionOptions = {},
+  ): Promise<string> {
+    log('Session', `Creating session for project: ${projectPath}`, {
+      readOnly,
+    });
 
     const sessionId = randomUUID();
     log('Session', `New session ID: ${sessionId}`);
@@ -92,12 +208,223 @@ export class SessionManager {
       log('Session', `Note: Could not create .gemini directory: ${err}`);
     }
 
+    // Start with the most preferred model that isn't cooling down
+    const model = this.models.preferred() ?? this.models.chain[0];
+    const config = await this.createConfig(
+      sessionId,
+      projectPath,
+      model,
+      readOnly,
+    );
+
+    const session: WebSession = {
+      id: sessionId,
+      projectPath,
+      readOnly,
+      config,
+      abortController: null,
+      model,
+      pinnedModel: null,
+      usage: new SessionUsage(),
+      deniedTools: new Set(),
+      allowedCommands: new Set(),
+      pendingToolConfirmations: new Map(),
+      toolQueue: Promise.resolve(),
+      title: '',
+      createdAt: new Date(),
+      ...this.createEventState(),
+    };
+    this.sessions.set(sessionId, session);
+    await this.persistSession(session);
+
+    log('Session', `Session created successfully (${this.sessions.size} active)`);
+    return sessionId;
+  }
+
+  /**
+   * Bring a saved session back into memory: rebuild its Config with the
+   * model it was last using and load the stored history into the client.
+   * A session that is already loaded keeps the mode it was opened with.
+   */
+  async resumeSession(
+    sessionId: string,
+    { readOnly = false }: SessionOptions = {},
+  ): Promise<WebSession> {
+    const active = this.sessions.get(sessionId);
+    if (active) {
+      return active;
+    }
+
+    log('Session', `Resuming session: ${sessionId}`);
+    const saved = await this.store.load(sessionId);
+    if (!saved) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    // The next run steps up to a better model if one is available again
+    const config = await this.createConfig(
+      sessionId,
+      saved.projectPath,
+      saved.model,
+      readOnly,
+    );
+    config.getGeminiClient().setHistory(saved.history);
+    log('Session', `Restored ${saved.history.length} history entries`);
+
+    const session: WebSession = {
+      id: sessionId,
+      projectPath: saved.projectPath,
+      readOnly,
+      config,
+      abortController: null,
+      model: saved.model,
+      pinnedModel: saved.pinnedModel ?? null,
+      usage: new SessionUsage(saved.usage),
+      deniedTools: new Set(saved.deniedTools),
+      allowedCommands: new Set(saved.allowedCommands),
+      pendingToolConfirmations: new Map(),
+      toolQueue: Promise.resolve(),
+      title: saved.title,
+      createdAt: new Date(saved.createdAt),
+      ...this.createEventState(),
+    };
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  /**
+   * Sessions saved on disk, including ones not currently loaded
+   */
+  listSavedSessions() {
+    return this.store.list();
+  }
+
+  private createEventState() {
+    return {
+      streamId: randomUUID(),
+      eventSeq: 0,
+      eventBuffer: [],
+      listeners: new Set<(event: SequencedEvent) => void>(),
+      runStart: null,
+    };
+  }
+
+  /**
+   * Listen to a session's stream events. Returns an unsubscribe function.
+   */
+  subscribe(
+    sessionId: string,
+    listener: (event: SequencedEvent) => void,
+  ): () => void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return () => {};
+    }
+    session.listeners.add(listener);
+    return () => {
+      session.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Events published after lastSeq, or null when some of them have already
+   * been dropped from the replay buffer
+   */
+  getEventsSince(
+    sessionId: string,
+    lastSeq: number,
+    streamId?: string,
+  ): SequencedEvent[] | null {
+    const session = this.sessions.get(sessionId);
+    if (
+      !session ||
+      (streamId !== undefined && streamId !== session.streamId) ||
+      lastSeq > session.eventSeq
+    ) {
+      return null;
+    }
+    const oldest = session.eventBuffer[0]?.seq ?? session.eventSeq + 1;
+    if (lastSeq < oldest - 1) {
+      return null;
+    }
+    return session.eventBuffer.filter((e) => e.seq > lastSeq);
+  }
+
+  /**
+   * A consistent view of the session for a client that has to start over:
+   * the history before the current run, plus the run's events so far.
+   * Falls back to the full history when the run's events are gone.
+   */
+  getSnapshot(sessionId: string): {
+    history: Content[];
+    streamId: string;
+    seq: number;
+    events: SequencedEvent[];
+  } {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return { history: [], streamId: '', seq: 0, events: [] };
+    }
+    const { streamId } = session;
+
+    const history = session.config.getGeminiClient().getHistory();
+    if (session.runStart) {
+      const events = this.getEventsSince(sessionId, session.runStart.seq);
+      if (events) {
+        return {
+          history: history.slice(0, session.runStart.historyLength),
+          streamId,
+          seq: session.runStart.seq,
+          events,
+        };
+      }
+    }
+    return { history, streamId, seq: session.eventSeq, events: [] };
+  }
+
+  private publish(session: WebSession, event: WebStreamEvent): void {
+    const sequenced = { seq: ++session.eventSeq, event };
+    session.eventBuffer.push(sequenced);
+    if (session.eventBuffer.length > EVENT_BUFFER_SIZE) {
+      session.eventBuffer.splice(
+        0,
+        session.eventBuffer.length - EVENT_BUFFER_SIZE,
+      );
+    }
+    for (const listener of session.listeners) {
+      try {
+        listener(sequenced);
+      } catch (err) {
+        logError('Stream', 'Listener error', err);
+      }
+    }
+  }
+
+  private async createConfig(
+    sessionId: string,
+    projectPath: string,
+    model: string,
+    readOnly: boolean,
+  ): Promise<Config> {
+    // MCP servers from the project's settings. Their tools may change
+    // anything, so read-only sessions go without.
+    let mcpServers: Record<string, McpServerSettings> = {};
+    if (!readOnly) {
+      try {
+        mcpServers = await readMcpSettings(projectPath);
+      } catch (err) {
+        logError('Session', 'Ignoring unreadable MCP settings', err);
+      }
+    }
+
     // Create Config with required parameters
     const config = new Config({
       sessionId,
       cwd: projectPath,
       targetDir: projectPath,
-      model: MODEL_FALLBACK_CHAIN[0], // Start with first model in fallback chain
+      model,
+      excludeTools: readOnly ? MUTATING_TOOLS : undefined,
+      mcpServers: toServerConfigs(mcpServers),
       debugMode: false,
       interactive: true, // Enable interactive mode for tool confirmations
       trustedFolder: true, // Trust the folder to allow tool execution
@@ -107,25 +434,41 @@ export class SessionManager {
     await config.initialize();
     log('Session', 'Config initialized');
 
+    // GEMINI.md context, read before the chat starts with it
+    const memory = await loadMemory(config);
+    log('Session', `Loaded ${memory.files.length} memory file(s)`);
+
     // Set up authentication
     const authType = this.detectAuthType();
     log('Session', `Using auth type: ${authType}`);
     await config.refreshAuth(authType);
     log('Session', 'Auth refreshed');
 
-    // Start with first model in fallback chain
-    const initialModelIndex = 0;
-
-    this.session = {
-      id: sessionId,
-      projectPath,
-      config,
-      abortController: null,
-      currentModelIndex: initialModelIndex,
-    };
+    return config;
+  }
 
-    log('Session', 'Session created successfully');
-    return sessionId;
+  /**
+   * Save history, model and metadata to the project's .gemini directory.
+   * Failures are logged but never interrupt the conversation.
+   */
+  private async persistSession(session: WebSession): Promise<void> {
+    try {
+      await this.store.save({
+        id: session.id,
+        projectPath: session.projectPath,
+        model: session.model,
+        pinnedModel: session.pinnedModel,
+        usage: session.usage.stats(),
+        deniedTools: [...session.deniedTools],
+        allowedCommands: [...session.allowedCommands],
+        title: session.title,
+        createdAt: session.createdAt.toISOString(),
+        updatedAt: new Date().toISOString(),
+        history: session.config.getGeminiClient().getHistory(),
+      });
+    } catch (err) {
+      logError('Session', `Failed to persist session ${session.id}`, err);
+    }
   }
 
   private detectAuthType(): AuthType {
@@ -141,21 +484,35 @@ export class SessionManager {
     return AuthType.USE_GEMINI;
   }
 
-  getSession(): WebSession | null {
-    return this.session;
+  getSession(sessionId: string): WebSession | null {
+    return this.sessions.get(sessionId) ?? null;
   }
 
-  isSessionActive(): boolean {
-    return this.session !== null;
+  listSessions(): WebSession[] {
+    return [...this.sessions.values()];
   }
 
-  getProjectPath(): string | null {
-    return this.session?.projectPath ?? null;
+  isSessionActive(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
   }
 
-  getCurrentModel(): string {
-    if (!this.session) return MODEL_FALLBACK_CHAIN[0];
-    return MODEL_FALLBACK_CHAIN[this.session.currentModelIndex];
+  isBusy(sessionId: string): boolean {
+    return !!this.sessions.get(sessionId)?.runStart;
+  }
+
+  getProjectPath(sessionId: string): string | null {
+    return this.sessions.get(sessionId)?.projectPath ?? null;
+  }
+
+  getCurrentModel(sessionId: string): string {
+    return this.sessions.get(sessionId)?.model ?? this.models.chain[0];
+  }
+
+  /**
+   * Cooldown state of every model in the fallback chain
+   */
+  getModelStatus() {
+    return this.models.status();
   }
 
   /**
@@ -172,66 +529,156 @@ export class SessionManager {
   }
 
   /**
-   * Switch to next model in fallback chain
-   * Returns true if switched, false if no more models available
+   * Put the session's model on cooldown (using the error's retry hint when
+   * there is one) and switch to the best model still available.
+   * Returns false if every model in the chain is cooling down.
    */
-  private async switchToNextModel(): Promise<boolean> {
-    if (!this.session) return false;
+  private fallBackFromQuotaError(session: WebSession, error: unknown): boolean {
+    const availableAt = this.models.markExhausted(
+      session.model,
+      parseRetryDelayMs(error),
+    );
+    log(
+      'Model',
+      `${session.model} exhausted until ${new Date(availableAt).toISOString()}`,
+    );
 
-    const nextIndex = this.session.currentModelIndex + 1;
-    if (nextIndex >= MODEL_FALLBACK_CHAIN.length) {
+    const nextModel = this.models.preferred(session.pinnedModel ?? undefined);
+    if (!nextModel) {
       log('Model', 'No more fallback models available');
       return false;
     }
+    this.switchModel(session, nextModel);
+    return true;
+  }
 
-    const nextModel = MODEL_FALLBACK_CHAIN[nextIndex];
-    log('Model', `Switching from ${this.getCurrentModel()} to ${nextModel}`);
+  /**
+   * After a quota error: fall back to another model and drop the unanswered
+   * request from the client's history, so the caller can resend it. Earlier
+   * turns, including tool calls already made in this run, stay in place.
+   * Returns false if no model is left.
+   */
+  private prepareFallbackRetry(
+    session: WebSession,
+    historyLength: number,
+    error: unknown,
+    onEvent: (event: WebStreamEvent) => void,
+  ): boolean {
+    const previousModel = session.model;
+    if (!this.fallBackFromQuotaError(session, error)) {
+      return false;
+    }
 
-    // Recreate config with new model
-    const { projectPath, id: sessionId } = this.session;
+    const client = session.config.getGeminiClient();
+    client.setHistory(client.getHistory().slice(0, historyLength));
+    log('Model', `Retrying turn on ${session.model}`, { historyLength });
 
-    const config = new Config({
-      sessionId,
-      cwd: projectPath,
-      targetDir: projectPath,
-      model: nextModel,
-      debugMode: false,
-      interactive: true,
-      trustedFolder: true,
+    onEvent({
+      type: 'model_switched',
+      from: previousModel,
+      to: session.model,
+      reason: 'quota',
     });
+    return true;
+  }
 
-    await config.initialize();
-    const authType = this.detectAuthType();
-    await config.refreshAuth(authType);
+  private allModelsExhaustedMessage(): string {
+    const availableAt = this.models.nextAvailableAt();
+    const retryHint = availableAt
+      ? `，预计 ${new Date(availableAt).toLocaleTimeString()} 恢复`
+      : '';
+    return `所有模型配额已用尽，请稍后再试${retryHint}。(${this.models.chain.join(' → ')} 均不可用)`;
+  }
 
-    this.session.config = config;
-    this.session.currentModelIndex = nextIndex;
+  /**
+   * Before a new run, move to the most preferred model that is usable now,
+   * e.g. back up to the first model once its quota has reset.
+   * Returns the previous model if it changed.
+   */
+  private refreshModel(session: WebSession): string | null {
+    const preferred = this.models.preferred(session.pinnedModel ?? undefined);
+    if (!preferred || preferred === session.model) {
+      return null;
+    }
+    const previous = session.model;
+    this.switchModel(session, preferred);
+    return previous;
+  }
 
-    log('Model', `Successfully switched to ${nextModel}`);
-    return true;
+  /**
+   * Switch a session to a model of the user's choice. The choice sticks:
+   * quota fallback still applies, but the session returns to this model
+   * (rather than the top of the chain) once it is available again.
+   */
+  async setModel(sessionId: string, model: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('No active session');
+    }
+    if (!this.models.chain.includes(model)) {
+      throw new Error(`Unknown model: ${model}`);
+    }
+    if (session.runStart) {
+      throw new Error('Cannot change model while a request is in progress');
+    }
+
+    session.pinnedModel = model;
+    this.switchModel(session, model);
+    await this.persistSession(session);
   }
 
-  async sendMessage(
-    message: string,
-    onEvent: (event: WebStreamEvent) => void,
-  ): Promise<void> {
-    log('Message', `sendMessage called, length: ${message.length}`);
+  private switchModel(session: WebSession, model: string): void {
+    log('Model', `Switching from ${session.model} to ${model}`);
+    // The same client (and its history) carries on with the new model
+    session.config.setModel(model);
+    session.model = model;
+  }
+
+  /**
+   * Run a prompt to completion. Events are published to the session's
+   * subscribers (see subscribe), so the run is independent of any socket.
+   */
+  async sendMessage(sessionId: string, message: string): Promise<void> {
+    log('Message', `sendMessage called for ${sessionId}, length: ${message.length}`);
     log('Message', `Message preview: ${message.substring(0, 100)}...`);
 
-    if (!this.session) {
-      logError('Message', 'No active session');
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      logError('Message', `No active session: ${sessionId}`);
       throw new Error('No active session');
     }
 
-    const { config } = this.session;
+    if (!session.title) {
+      session.title = message.substring(0, 80);
+    }
+
+    const { config } = session;
     log('Message', 'Getting GeminiClient...');
     const client = config.getGeminiClient();
-    const promptId = randomUUID();
+    const onEvent = (event: WebStreamEvent) => this.publish(session, event);
+
+    session.runStart = {
+      seq: session.eventSeq,
+      historyLength: client.getHistory().length,
+    };
+    onEvent({ type: 'user_message', text: message });
+
+    const previousModel = this.refreshModel(session);
+    if (previousModel) {
+      onEvent({
+        type: 'model_switched',
+        from: previousModel,
+        to: session.model,
+        reason: 'recovered',
+      });
+    }
+
+    let promptId = randomUUID();
     log('Message', `Prompt ID: ${promptId}`);
 
     // Create abort controller for this message
-    this.session.abortController = new AbortController();
-    const signal = this.session.abortController.signal;
+    session.abortController = new AbortController();
+    const signal = session.abortController.signal;
 
     // Current message to send (starts with user input, then tool results)
     let currentMessage: Part[] = [{ text: message }];
@@ -249,6 +696,11 @@ export class SessionManager {
         log('Turn', `=== Turn ${turnCount} starting ===`);
         log('Turn', `Sending ${currentMessage.length} part(s) to Gemini`);
 
+        // History before this request, to roll back to if it has to be resent
+        const historyLength = client.getHistory().length;
+        let retryTurn = false;
+        const requestStart = Date.now();
+
         const stream = client.sendMessageStream(
           currentMessage,
           signal,
@@ -257,106 +709,135 @@ export class SessionManager {
         let eventCount = 0;
         let contentLength = 0;
 
-        for await (const event of stream) {
-          eventCount++;
+        try {
+          for await (const event of stream) {
+            eventCount++;
 
-          if (signal.aborted) {
-            log('Turn', 'Signal aborted, cancelling');
-            onEvent({ type: 'cancelled' });
-            return;
-          }
-
-          // Log ALL raw events from Gemini with full details
-          log(
-            'RawEvent',
-            `[${eventCount}] RAW Gemini event type=${event.type}`,
-            {
-              type: event.type,
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              value: event.type === GeminiEventType.Content
-                ? { text: event.value, length: (event.value ?? '').length }
-                : (event as any).value,
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              fullEvent: JSON.stringify(event).substring(0, 500),
+            if (signal.aborted) {
+              log('Turn', 'Signal aborted, cancelling');
+              onEvent({ type: 'cancelled' });
+              return;
             }
-          );
 
-          // Log event details
-          if (event.type === GeminiEventType.Content) {
-            contentLength += (event.value ?? '').length;
-            log('Content', `Content chunk received`, {
-              chunkLength: (event.value ?? '').length,
-              totalContentSoFar: contentLength,
-              textPreview: (event.value ?? '').substring(0, 200),
-            });
-          } else {
+            // Log ALL raw events from Gemini with full details
             log(
-              'Event',
-              `[${eventCount}] type=${event.type}`,
-              event.type === GeminiEventType.ToolCallRequest
-                ? { name: event.value.name, callId: event.value.callId }
-                : undefined,
+              'RawEvent',
+              `[${eventCount}] RAW Gemini event type=${event.type}`,
+              {
+                type: event.type,
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                value: event.type === GeminiEventType.Content
+                  ? { text: event.value, length: (event.value ?? '').length }
+                  : (event as any).value,
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                fullEvent: JSON.stringify(event).substring(0, 500),
+              }
             );
-          }
 
-          // Collect tool call requests
-          if (event.type === GeminiEventType.ToolCallRequest) {
-            toolCallRequests.push(event.value);
-            log('Tool', `Tool request: ${event.value.name}`, {
-              callId: event.value.callId,
-              args: event.value.args,
-            });
-          }
+            // Log event details
+            if (event.type === GeminiEventType.Content) {
+              contentLength += (event.value ?? '').length;
+              log('Content', `Content chunk received`, {
+                chunkLength: (event.value ?? '').length,
+                totalContentSoFar: contentLength,
+                textPreview: (event.value ?? '').substring(0, 200),
+              });
+            } else {
+              log(
+                'Event',
+                `[${eventCount}] type=${event.type}`,
+                event.type === GeminiEventType.ToolCallRequest
+                  ? { name: event.value.name, callId: event.value.callId }
+                  : undefined,
+              );
+            }
 
-          // Transform and emit event to frontend
-          const webEvent = this.transformEvent(event);
-          if (webEvent) {
-            log(
-              'WebEvent',
-              `>>> Sending to frontend: ${webEvent.type}`,
-              webEvent.type === 'content'
-                ? { length: webEvent.text.length, textPreview: webEvent.text.substring(0, 100) }
-                : webEvent.type === 'tool_call'
-                  ? { tool: webEvent.toolName }
-                  : webEvent.type === 'thought'
-                    ? { text: webEvent.text.substring(0, 100) }
-                    : webEvent,
-            );
-            onEvent(webEvent);
-          } else {
-            log('WebEvent', `Event type ${event.type} not transformed (returned null)`);
-          }
+            // Collect tool call requests
+            if (event.type === GeminiEventType.ToolCallRequest) {
+              toolCallRequests.push(event.value);
+              log('Tool', `Tool request: ${event.value.name}`, {
+                callId: event.value.callId,
+                args: event.value.args,
+              });
+            }
 
-          // Handle errors
-          if (event.type === GeminiEventType.Error) {
-            const errorMsg = event.value.error.message || String(event.value.error);
-            logError('Event', 'Gemini error', event.value.error);
-
-            // Check if this is a quota error
-            if (this.isQuotaError(errorMsg)) {
-              const currentModel = this.getCurrentModel();
-              log('Model', `Quota error in stream for ${currentModel}, attempting fallback...`);
-
-              const switched = await this.switchToNextModel();
-              if (switched) {
-                const newModel = this.getCurrentModel();
-                onEvent({
-                  type: 'content',
-                  text: `\n\n⚠️ **${currentModel} 配额已用尽，已自动切换到 ${newModel}**\n\n`,
-                });
-
-                // Retry with new model
-                this.session!.abortController = null;
-                return this.sendMessage(message, onEvent);
+            // Handle errors (reported here rather than via transformEvent)
+            if (event.type === GeminiEventType.Error) {
+              const errorMsg =
+                event.value.error.message || String(event.value.error);
+              logError('Event', 'Gemini error', event.value.error);
+
+              // Out of quota: resend this turn's request on the next model
+              if (
+                this.isQuotaError(errorMsg) &&
+                this.prepareFallbackRetry(
+                  session,
+                  historyLength,
+                  errorMsg,
+                  onEvent,
+                )
+              ) {
+                retryTurn = true;
+                break;
               }
+
+              onEvent({
+                type: 'error',
+                message: this.isQuotaError(errorMsg)
+                  ? this.allModelsExhaustedMessage()
+                  : errorMsg,
+              });
+              return;
             }
 
-            onEvent({
-              type: 'error',
-              message: errorMsg,
-            });
-            return;
+            // End of the model's response: account for it
+            if (event.type === GeminiEventType.Finished) {
+              const turn: TurnUsage = {
+                model: session.model,
+                ...tokenCounts(event.value.usageMetadata),
+                latencyMs: Date.now() - requestStart,
+                finishReason: event.value.reason ?? null,
+              };
+              session.usage.record(turn);
+              log('Usage', `Turn ${turnCount} usage`, turn);
+              onEvent({ type: 'usage', turn, session: session.usage.stats() });
+              continue;
+            }
+
+            // Transform and emit event to frontend
+            const webEvent = this.transformEvent(event);
+            if (webEvent) {
+              log(
+                'WebEvent',
+                `>>> Sending to frontend: ${webEvent.type}`,
+                webEvent.type === 'content'
+                  ? { length: webEvent.text.length, textPreview: webEvent.text.substring(0, 100) }
+                  : webEvent.type === 'tool_call'
+                    ? { tool: webEvent.toolName }
+                    : webEvent.type === 'thought'
+                      ? { text: webEvent.text.substring(0, 100) }
+                      : webEvent,
+              );
+              onEvent(webEvent);
+            } else {
+              log('WebEvent', `Event type ${event.type} not transformed (returned null)`);
+            }
+          }
+        } catch (error) {
+          if (
+            signal.aborted ||
+            !this.isQuotaError(error) ||
+            !this.prepareFallbackRetry(session, historyLength, error, onEvent)
+          ) {
+            throw error;
           }
+          retryTurn = true;
+        }
+
+        if (retryTurn) {
+          // A new prompt ID makes the client pick up the new model
+          promptId = randomUUID();
+          continue;
         }
 
         log('Turn', `=== Turn ${turnCount} stream completed ===`, {
@@ -371,7 +852,7 @@ export class SessionManager {
           log('Tool', `Processing ${toolCallRequests.length} tool call(s)...`);
 
           const completedCalls = await this.executeToolsWithScheduler(
-            config,
+            session,
             toolCallRequests,
             signal,
             onEvent,
@@ -443,28 +924,9 @@ export class SessionManager {
     } catch (error) {
       logError('Message', 'sendMessage error', error);
 
-      // Check if this is a quota error and try to switch models
+      // Fallback already failed in the turn loop: no model left
       if (this.isQuotaError(error)) {
-        const currentModel = this.getCurrentModel();
-        log('Model', `Quota error detected for ${currentModel}, attempting fallback...`);
-
-        const switched = await this.switchToNextModel();
-        if (switched) {
-          const newModel = this.getCurrentModel();
-          onEvent({
-            type: 'content',
-            text: `\n\n⚠️ **${currentModel} 配额已用尽，已自动切换到 ${newModel}**\n\n`,
-          });
-
-          // Retry with new model
-          this.session!.abortController = null;
-          return this.sendMessage(message, onEvent);
-        } else {
-          onEvent({
-            type: 'error',
-            message: `所有模型配额已用尽，请稍后再试。(${MODEL_FALLBACK_CHAIN.join(' → ')} 均不可用)`,
-          });
-        }
+        onEvent({ type: 'error', message: this.allModelsExhaustedMessage() });
       } else if (signal.aborted) {
         onEvent({ type: 'cancelled' });
       } else {
@@ -474,7 +936,10 @@ export class SessionManager {
         });
       }
     } finally {
-      this.session.abortController = null;
+      session.abortController = null;
+      session.runStart = null;
+      session.pendingToolConfirmations.clear();
+      await this.persistSession(session);
       log('Message', 'sendMessage completed');
     }
   }
@@ -498,24 +963,16 @@ export class SessionManager {
       case GeminiEventType.ToolCallRequest:
         return {
           type: 'tool_call',
+          callId: event.value.callId,
           toolName: event.value.name,
           args: event.value.args,
         };
 
+      // Results and confirmations are reported by the scheduler, which
+      // knows the tool behind each call
       case GeminiEventType.ToolCallResponse:
-        return {
-          type: 'tool_result',
-          toolName: event.value.callId,
-          result: event.value.resultDisplay,
-        };
-
       case GeminiEventType.ToolCallConfirmation:
-        return {
-          type: 'tool_confirm_request',
-          toolName: event.value.request.name,
-          args: event.value.request.args,
-          details: event.value.details,
-        };
+        return null;
 
       case GeminiEventType.Error:
         return {
@@ -537,22 +994,75 @@ export class SessionManager {
    * Execute tools using CoreToolScheduler with proper confirmation handling
    */
   private executeToolsWithScheduler(
-    config: Config,
+    session: WebSession,
     toolCallRequests: ToolCallRequestInfo[],
     signal: AbortSignal,
     onEvent: (event: WebStreamEvent) => void,
   ): Promise<CompletedToolCall[]> {
-    return new Promise((resolve, reject) => {
+    // Calls to tools disabled for the session are answered without running
+    const denied = toolCallRequests
+      .filter((request) => session.deniedTools.has(request.name))
+      .map((request) => {
+        log('Scheduler', `Tool disabled for session: ${request.name}`);
+        const call = deniedToolCall(request);
+        onEvent({
+          type: 'tool_status',
+          callId: request.callId,
+          toolName: request.name,
+          status: 'error',
+          error: call.response.error?.message,
+        });
+        return call;
+      });
+    const allowed = toolCallRequests.filter(
+      (request) => !session.deniedTools.has(request.name),
+    );
+    if (allowed.length === 0) {
+      return Promise.resolve(denied);
+    }
+
+    return new Promise<CompletedToolCall[]>((resolve, reject) => {
       const reportedSuccess = new Set<string>();
       const reportedCancelled = new Set<string>();
+      const confirmationRequested = new Set<string>();
+      const completed = new Map<string, CompletedToolCall>(
+        denied.map((call) => [call.request.callId, call]),
+      );
+      const reportedStatus = new Map<string, string>();
+
+      // Steps of a call's lifecycle without an event of their own (results,
+      // confirmations and cancellations have one), each reported once
+      const reportStatus = (call: ToolCall) => {
+        const callId = call.request.callId;
+        const status = call.status;
+        if (!isReportedStatus(status) || reportedStatus.get(callId) === status) {
+          return;
+        }
+        reportedStatus.set(callId, status);
+        onEvent({
+          type: 'tool_status',
+          callId,
+          toolName: call.request.name,
+          status,
+          ...(call.status === 'error' && {
+            error:
+              call.response.error?.message ??
+              String(call.response.resultDisplay ?? 'Tool failed'),
+          }),
+        });
+      };
 
       log(
         'Scheduler',
-        `Creating scheduler for ${toolCallRequests.length} tool(s)`,
+        `Creating schedulers for ${allowed.length} tool(s)`,
       );
 
-      const scheduler = new CoreToolScheduler({
-        config,
+      // One scheduler per call: a core scheduler asks about one call at a
+      // time, only once the previous one has run, and cancels the rest of
+      // its batch when a call is rejected. Separate schedulers let every
+      // call wait for approval at once and be answered on its own.
+      const createScheduler = () => new CoreToolScheduler({
+        config: session.config,
         getPreferredEditor: () => undefined,
         onAllToolCallsComplete: async (completedToolCalls) => {
           log('Scheduler', `onAllToolCallsComplete called`, {
@@ -568,6 +1078,7 @@ export class SessionManager {
           // Send results for any tools not yet reported
           for (const call of completedToolCalls) {
             const callId = call.request.callId;
+            reportStatus(call);
             log(
               'Scheduler',
               `Processing completed call: ${call.request.name}`,
@@ -599,13 +1110,25 @@ export class SessionManager {
               });
               onEvent({
                 type: 'tool_result',
+                callId,
                 toolName: call.request.name,
                 result,
               });
             }
+            completed.set(callId, call);
           }
 
-          resolve(completedToolCalls);
+          if (
+            signal.aborted ||
+            allowed.every((request) => completed.has(request.callId))
+          ) {
+            // Answer in the order the model made the calls
+            resolve(
+              toolCallRequests
+                .map((request) => completed.get(request.callId))
+                .filter((call): call is CompletedToolCall => !!call),
+            );
+          }
         },
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         onToolCallsUpdate: (toolCalls: any[]) => {
@@ -617,40 +1140,35 @@ export class SessionManager {
               hasConfirmationDetails: !!toolCall.confirmationDetails,
               hasResponse: !!toolCall.response,
             });
+            reportStatus(toolCall);
 
             // Handle awaiting_approval status
             if (
               toolCall.status === 'awaiting_approval' &&
-              !this.pendingToolConfirmation
+              !confirmationRequested.has(callId)
             ) {
+              confirmationRequested.add(callId);
               const confirmDetails =
                 toolCall.confirmationDetails as ToolCallConfirmationDetails;
-              log(
-                'Scheduler',
-                `Tool needs confirmation: ${toolCall.request.name}`,
-                {
-                  type: confirmDetails.type,
-                },
-              );
-
-              this.pendingToolConfirmation = {
-                toolName: toolCall.request.name,
-                args: toolCall.request.args,
-                details: confirmDetails,
-                onConfirm: confirmDetails.onConfirm,
-              };
-
-              onEvent({
-                type: 'tool_confirm_request',
-                toolName: toolCall.request.name,
-                args: toolCall.request.args,
-                details: {
-                  type: confirmDetails.type,
-                  description:
-                    confirmDetails.type === 'edit'
-                      ? `Edit file: ${(confirmDetails as { fileName?: string }).fileName}`
-                      : `Execute: ${toolCall.request.name}`,
-                },
+              this.requestConfirmation(
+                session,
+                toolCall.request,
+                toolCall.invocation,
+                confirmDetails,
+                onEvent,
+              ).catch((error) => {
+                logError(
+                  'Scheduler',
+                  `Failed to request confirmation for ${toolCall.request.name}`,
+                  error,
+                );
+                // Nobody can answer it now: don't leave the call waiting
+                session.pendingToolConfirmations.delete(callId);
+                confirmDetails
+                  .onConfirm(ToolConfirmationOutcome.Cancel)
+                  .catch((err) =>
+                    logError('Scheduler', 'Failed to cancel tool call', err),
+                  );
               });
             }
 
@@ -681,6 +1199,7 @@ export class SessionManager {
               );
               onEvent({
                 type: 'tool_result',
+                callId,
                 toolName: toolCall.request.name,
                 result,
               });
@@ -692,9 +1211,11 @@ export class SessionManager {
               !reportedCancelled.has(callId)
             ) {
               reportedCancelled.add(callId);
+              session.pendingToolConfirmations.delete(callId);
               log('Scheduler', `Tool cancelled: ${toolCall.request.name}`);
               onEvent({
                 type: 'tool_cancelled',
+                callId,
                 toolName: toolCall.request.name,
               });
             }
@@ -703,11 +1224,11 @@ export class SessionManager {
       });
 
       // Schedule all tool calls
-      for (const request of toolCallRequests) {
+      for (const request of allowed) {
         log('Scheduler', `Scheduling tool: ${request.name}`, {
           callId: request.callId,
         });
-        scheduler.schedule(request, signal).catch((error) => {
+        createScheduler().schedule(request, signal).catch((error) => {
           logError(
             'Scheduler',
             `Tool schedule error for ${request.name}`,
@@ -719,83 +1240,600 @@ export class SessionManager {
     });
   }
 
-  confirmTool(confirmed: boolean): void {
+  /**
+   * Approve a call the session's allowed commands or the project's policy
+   * cover, or ask the session's users
+   */
+  private async requestConfirmation(
+    session: WebSession,
+    request: ToolCallRequestInfo,
+    invocation: AnyToolInvocation,
+    confirmDetails: ToolCallConfirmationDetails,
+    onEvent: (event: WebStreamEvent) => void,
+  ): Promise<void> {
+    const shell =
+      confirmDetails.type === 'exec'
+        ? describeShellCommand(
+            confirmDetails.command,
+            typeof request.args['dir_path'] === 'string'
+              ? request.args['dir_path']
+              : undefined,
+            session.projectPath,
+          )
+        : null;
+    const risk = confirmationRisk(confirmDetails, shell, session.projectPath);
+
+    // High risk calls are always asked about, whatever was allowed before
+    const mayAllow = risk.level !== 'high';
+    if (
+      shell &&
+      shell.roots.length > 0 &&
+      mayAllow &&
+      shell.roots.every((root) => session.allowedCommands.has(root))
+    ) {
+      log('Scheduler', `Command allowed for session: ${shell.command}`, {
+        roots: shell.roots,
+      });
+      await this.answerCore(
+        session,
+        confirmDetails.onConfirm,
+        ToolConfirmationOutcome.ProceedOnce,
+      );
+      return;
+    }
+
+    let rule: PolicyRule | undefined;
+    try {
+      rule = mayAllow
+        ? findAllowingRule(
+            await readPolicy(session.projectPath),
+            request.name,
+            invocation,
+            confirmDetails,
+          )
+        : undefined;
+    } catch (error) {
+      // Fall back to asking
+      logError('Policy', `Failed to check policy for ${request.name}`, error);
+    }
+    if (rule) {
+      log('Policy', `Tool allowed by policy: ${request.name}`, {
+        ruleId: rule.id,
+        type: rule.type,
+      });
+      // Not a reason to ask again if this fails: the core may already
+      // have its answer, so the caller cancels the call instead
+      await this.answerCore(
+        session,
+        confirmDetails.onConfirm,
+        ToolConfirmationOutcome.ProceedOnce,
+      );
+      return;
+    }
+
+    log('Scheduler', `Tool needs confirmation: ${request.name}`, {
+      type: confirmDetails.type,
+      risk: risk.level,
+    });
+
+    const outcomes = confirmationOutcomes(confirmDetails, !session.readOnly);
+    const event = {
+      type: 'tool_confirm_request' as const,
+      callId: request.callId,
+      toolName: request.name,
+      args: request.args,
+      details: {
+        type: confirmDetails.type,
+        description:
+          confirmDetails.type === 'edit'
+            ? `Edit file: ${confirmDetails.fileName}`
+            : `Execute: ${request.name}`,
+        outcomes,
+        risk,
+        // Everything needed to review the change
+        ...(confirmDetails.type === 'edit' && {
+          fileName: confirmDetails.fileName,
+          filePath: path.relative(session.projectPath, confirmDetails.filePath),
+          fileDiff: confirmDetails.fileDiff,
+          originalContent: confirmDetails.originalContent,
+          newContent: confirmDetails.newContent,
+          isModifying: confirmDetails.isModifying ?? false,
+        }),
+        // What an "always" answer would cover, and what will run where
+        ...(confirmDetails.type === 'exec' && {
+          command: confirmDetails.command,
+          commands: shell?.commands ?? [],
+          roots: shell?.roots ?? [],
+          cwd: shell?.cwd ?? '.',
+        }),
+        ...(confirmDetails.type === 'mcp' && {
+          serverName: confirmDetails.serverName,
+        }),
+      },
+    };
+    session.pendingToolConfirmations.set(request.callId, {
+      callId: request.callId,
+      toolName: request.name,
+      args: request.args,
+      details: confirmDetails,
+      outcomes,
+      shell,
+      risk,
+      event,
+      onConfirm: confirmDetails.onConfirm,
+    });
+
+    onEvent(event);
+  }
+
+  /**
+   * Answer a pending confirmation, the oldest one unless `callId` names
+   * another. The "always" outcomes save a rule to
+   * the project's policy (a shell rule covers `command`, defaulting to the
+   * command asked about) and need a session with write access. Approving an
+   * edit with `newContent` writes that instead of the proposal; the tool
+   * tells the model the user changed it. Approving a shell command with
+   * `allowRoots` runs those of its root commands without asking for the
+   * rest of the session.
+   */
+  async confirmTool(
+    sessionId: string,
+    callId: string | undefined,
+    outcome: ToolConfirmationOutcome,
+    username: string,
+    { command, newContent, allowRoots }: ConfirmOptions = {},
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    const pending = this.findPendingConfirmation(session, callId);
     log('Confirm', `confirmTool called`, {
-      confirmed,
-      hasPending: !!this.pendingToolConfirmation,
-      toolName: this.pendingToolConfirmation?.toolName,
-      pendingArgs: this.pendingToolConfirmation?.args,
+      sessionId,
+      callId: pending?.callId ?? callId,
+      outcome,
+      hasPending: !!pending,
+      toolName: pending?.toolName,
+      pendingArgs: pending?.args,
     });
 
-    if (this.pendingToolConfirmation) {
-      const outcome = confirmed
-        ? ToolConfirmationOutcome.ProceedOnce
-        : ToolConfirmationOutcome.Cancel;
-      log('Confirm', `Calling onConfirm with outcome: ${outcome}`);
-      try {
-        this.pendingToolConfirmation.onConfirm(outcome);
-        log('Confirm', 'onConfirm called successfully');
-      } catch (err) {
-        log('Confirm', `onConfirm error: ${err}`);
-      }
-      this.pendingToolConfirmation = null;
-    } else {
+    if (!session || !pending) {
       log('Confirm', 'WARNING: No pending confirmation to confirm!');
+      return;
+    }
+    if (!pending.outcomes.includes(outcome)) {
+      throw new Error(`Outcome not available for this tool: ${outcome}`);
+    }
+
+    // Unchanged content is a plain approval
+    const payload: ToolConfirmationPayload | undefined =
+      newContent !== undefined &&
+      outcome !== ToolConfirmationOutcome.Cancel &&
+      !(
+        pending.details.type === 'edit' &&
+        newContent === pending.details.newContent
+      )
+        ? { newContent }
+        : undefined;
+    if (payload) {
+      if (pending.details.type !== 'edit') {
+        throw new Error('Only file edits can be modified before approval');
+      }
+      // The core ignores empty content and would write the proposal instead
+      if (!payload.newContent) {
+        throw new Error('Modified content must not be empty');
+      }
+    }
+
+    if (allowRoots?.length) {
+      if (outcome === ToolConfirmationOutcome.Cancel) {
+        throw new Error('Commands can only be allowed when approving');
+      }
+      const unknown = allowRoots.filter(
+        (root) => !pending.shell?.roots.includes(root),
+      );
+      if (unknown.length > 0) {
+        throw new Error(`Not a root command of this call: ${unknown[0]}`);
+      }
+      for (const root of allowRoots) {
+        session.allowedCommands.add(root);
+      }
+      log('Confirm', `Commands allowed for ${sessionId}`, allowRoots);
+      await this.persistSession(session);
+      if (!session.pendingToolConfirmations.has(pending.callId)) {
+        return; // Answered or cancelled meanwhile
+      }
+    }
+
+    if (isAlwaysOutcome(outcome)) {
+      const match = policyMatchFor(
+        outcome,
+        pending.toolName,
+        pending.details,
+        command,
+      );
+      if (!match) {
+        throw new Error('Nothing to save for this approval');
+      }
+      const rule = await addPolicyRule(session.projectPath, match, username);
+      log('Policy', `Rule saved for ${session.projectPath}`, rule);
+      if (!session.pendingToolConfirmations.has(pending.callId)) {
+        return; // Answered or cancelled meanwhile
+      }
     }
-  }
 
-  hasPendingConfirmation(): boolean {
-    return this.pendingToolConfirmation !== null;
+    // The core only ever hears "once": its own "always" lists live in
+    // memory (for MCP, shared by all sessions) and could not be revoked
+    const coreOutcome =
+      outcome === ToolConfirmationOutcome.Cancel
+        ? ToolConfirmationOutcome.Cancel
+        : ToolConfirmationOutcome.ProceedOnce;
+    session.pendingToolConfirmations.delete(pending.callId);
+    // Lets every viewer of the session drop the confirmation
+    this.publish(session, {
+      type: 'tool_confirmed',
+      callId: pending.callId,
+      toolName: pending.toolName,
+      outcome,
+    });
+    log('Confirm', `Calling onConfirm with outcome: ${coreOutcome}`, {
+      callId: pending.callId,
+      modified: !!payload,
+    });
+    // Not awaited: the scheduler goes on to run the tool
+    this.answerCore(session, pending.onConfirm, coreOutcome, payload)
+      .then(() => log('Confirm', 'onConfirm called successfully'))
+      .catch((err) => logError('Confirm', 'onConfirm error', err));
   }
 
-  getPendingConfirmation(): ToolConfirmation | null {
-    return this.pendingToolConfirmation;
+  /**
+   * Pass an answer on to the core. Approved calls run as soon as the core
+   * hears of them, so approvals are queued: edits of the same file running
+   * side by side would overwrite each other. Rejections need not wait.
+   */
+  private answerCore(
+    session: WebSession,
+    onConfirm: ToolConfirmation['onConfirm'],
+    outcome: ToolConfirmationOutcome,
+    payload?: ToolConfirmationPayload,
+  ): Promise<void> {
+    if (outcome === ToolConfirmationOutcome.Cancel) {
+      return onConfirm(outcome, payload);
+    }
+    const answered = session.toolQueue.then(() => onConfirm(outcome, payload));
+    session.toolQueue = answered.catch(() => undefined);
+    return answered;
   }
 
-  cancelCurrentRequest(): void {
-    log('Session', 'cancelCurrentRequest called');
-    if (this.session?.abortController) {
-      this.session.abortController.abort();
+  private findPendingConfirmation(
+    session: WebSession | undefined,
+    callId: string | undefined,
+  ): ToolConfirmation | null {
+    const pending = session?.pendingToolConfirmations;
+    if (!pending) {
+      return null;
     }
+    return callId !== undefined
+      ? (pending.get(callId) ?? null)
+      : (pending.values().next().value ?? null);
   }
 
-  getHistory(): Content[] {
-    if (!this.session) {
+  hasPendingConfirmation(sessionId: string, callId?: string): boolean {
+    return !!this.findPendingConfirmation(this.sessions.get(sessionId), callId);
+  }
+
+  /**
+   * Calls of the session waiting for the user, in the order asked
+   */
+  getPendingConfirmations(sessionId: string): ToolConfirmation[] {
+    const session = this.sessions.get(sessionId);
+    return session ? [...session.pendingToolConfirmations.values()] : [];
+  }
+
+  cancelCurrentRequest(sessionId: string): void {
+    log('Session', `cancelCurrentRequest called for ${sessionId}`);
+    this.sessions.get(sessionId)?.abortController?.abort();
+  }
+
+  getHistory(sessionId: string): Content[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
       return [];
     }
-    return this.session.config.getGeminiClient().getHistory();
+    return session.config.getGeminiClient().getHistory();
+  }
+
+  /**
+   * Token usage of a session, in total and per model
+   */
+  getStats(sessionId: string): SessionStats | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+    return {
+      model: session.model,
+      createdAt: session.createdAt.toISOString(),
+      ...session.usage.stats(),
+    };
+  }
+
+  /**
+   * Replace older turns of the conversation with a summary, even if the
+   * history is not yet large enough for automatic compression
+   */
+  async compressChat(sessionId: string): Promise<ChatCompressionInfo> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('No active session');
+    }
+    const info = await session.config
+      .getGeminiClient()
+      .tryCompressChat(randomUUID(), true);
+    log('Session', `Chat compressed for ${sessionId}`, info);
+    await this.persistSession(session);
+    return info;
+  }
+
+  /**
+   * Show the outcome of a slash command to everyone viewing the session
+   */
+  publishCommandResult(
+    sessionId: string,
+    command: string,
+    result: CommandResult,
+  ): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.publish(session, { type: 'command_result', command, result });
+    }
+  }
+
+  /**
+   * Tools the session's model can call, marked enabled or disabled
+   */
+  listTools(sessionId: string): ToolInfo[] {
+    const session = this.sessions.get(sessionId);
+    return session ? listTools(session.config, session.deniedTools) : [];
+  }
+
+  /**
+   * Enable (allow) or disable (deny) tools for a session. Returns the
+   * tools now disabled.
+   */
+  async setToolAccess(
+    sessionId: string,
+    { allow = [], deny = [] }: { allow?: string[]; deny?: string[] },
+  ): Promise<string[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('No active session');
+    }
+    const known = new Set(session.config.getToolRegistry().getAllToolNames());
+    const unknown = [...allow, ...deny].filter((name) => !known.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown tool: ${unknown.join(', ')}`);
+    }
+
+    for (const name of allow) {
+      session.deniedTools.delete(name);
+    }
+    for (const name of deny) {
+      session.deniedTools.add(name);
+    }
+    log('Session', `Disabled tools for ${sessionId}`, [...session.deniedTools]);
+    await this.persistSession(session);
+    return [...session.deniedTools];
+  }
+
+  /**
+   * MCP servers configured for the session's project, with their status
+   */
+  async listMcpServers(sessionId: string): Promise<McpServerInfo[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('No active session');
+    }
+    return describeMcpServers(
+      session.config,
+      await readMcpSettings(session.projectPath),
+      !session.readOnly,
+    );
+  }
+
+  /**
+   * Save a new MCP server to the project's settings and connect it in every
+   * loaded session of the project
+   */
+  async addMcpServer(
+    sessionId: string,
+    name: string,
+    settings: McpServerSettings,
+  ): Promise<void> {
+    const session = this.requireWritableSession(sessionId);
+    const servers = await readMcpSettings(session.projectPath);
+    if (servers[name]) {
+      throw new Error(`MCP server already exists: ${name}`);
+    }
+    await writeMcpSettings(session.projectPath, {
+      ...servers,
+      [name]: settings,
+    });
+    log('MCP', `Added server ${name} to ${session.projectPath}`);
+
+    await Promise.all(
+      this.mcpSessions(session.projectPath).map((s) =>
+        startMcpServer(s.config, name, settings),
+      ),
+    );
+  }
+
+  /**
+   * Remove an MCP server from the project's settings and disconnect it
+   */
+  async removeMcpServer(sessionId: string, name: string): Promise<void> {
+    const session = this.requireWritableSession(sessionId);
+    const { [name]: removed, ...servers } = await readMcpSettings(
+      session.projectPath,
+    );
+    if (!removed) {
+      throw new Error(`Unknown MCP server: ${name}`);
+    }
+    await writeMcpSettings(session.projectPath, servers);
+    log('MCP', `Removed server ${name} from ${session.projectPath}`);
+
+    await Promise.all(
+      this.mcpSessions(session.projectPath).map((s) =>
+        stopMcpServer(s.config, name),
+      ),
+    );
+  }
+
+  /**
+   * Reconnect an MCP server in this session and rediscover its tools
+   */
+  async restartMcpServer(sessionId: string, name: string): Promise<void> {
+    const session = this.requireWritableSession(sessionId);
+    log('MCP', `Restarting server ${name} for ${sessionId}`);
+    await restartMcpServer(session.config, name);
+  }
+
+  // Loaded sessions of a project that run MCP servers
+  private mcpSessions(projectPath: string): WebSession[] {
+    return [...this.sessions.values()].filter(
+      (s) => s.projectPath === projectPath && !s.readOnly,
+    );
+  }
+
+  private requireWritableSession(sessionId: string): WebSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('No active session');
+    }
+    if (session.readOnly) {
+      throw new Error('MCP servers are not available in read-only sessions');
+    }
+    return session;
+  }
+
+  getMemory(sessionId: string): MemoryInfo | null {
+    const session = this.sessions.get(sessionId);
+    return session ? getMemoryInfo(session.config) : null;
+  }
+
+  /**
+   * Re-read the GEMINI.md files and give the model the new memory, keeping
+   * the conversation
+   */
+  async refreshMemory(sessionId: string): Promise<MemoryInfo> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('No active session');
+    }
+    const memory = await loadMemory(session.config);
+    await session.config.getGeminiClient().updateSystemInstruction();
+    log('Session', `Memory refreshed: ${memory.files.length} file(s)`);
+    return memory;
+  }
+
+  /**
+   * Add a fact to the project's GEMINI.md and reload the memory
+   */
+  async addMemory(sessionId: string, fact: string): Promise<MemoryInfo> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('No active session');
+    }
+    if (session.readOnly) {
+      throw new Error('Memory cannot be changed in a read-only session');
+    }
+    await addMemoryFact(session.projectPath, fact);
+    return this.refreshMemory(sessionId);
   }
 
-  async resetChat(): Promise<void> {
-    log('Session', 'resetChat called');
-    if (this.session) {
-      await this.session.config.getGeminiClient().resetChat();
+  async resetChat(sessionId: string): Promise<void> {
+    log('Session', `resetChat called for ${sessionId}`);
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      await session.config.getGeminiClient().resetChat();
+      await this.persistSession(session);
     }
   }
 
-  async closeSession(): Promise<void> {
-    log('Session', 'closeSession called');
-    if (this.session) {
-      this.cancelCurrentRequest();
-      this.session = null;
+  async closeSession(sessionId: string): Promise<void> {
+    log('Session', `closeSession called for ${sessionId}`);
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
     }
+    this.cancelCurrentRequest(sessionId);
+    // Its stdio MCP servers are child processes that would outlive it
+    try {
+      await session.config.getMcpClientManager()?.stop();
+    } catch (error) {
+      logError('Session', `Failed to stop MCP servers of ${sessionId}`, error);
+    }
+    await this.persistSession(session);
+    this.sessions.delete(sessionId);
   }
 }
 
+export type ModelSwitchReason = 'quota' | 'recovered';
+
+export interface SessionStats extends UsageStats {
+  model: string;
+  createdAt: string;
+}
+
+// Steps between a tool call and its result, cancellation or confirmation
+export type ToolStatus = 'validating' | 'scheduled' | 'executing' | 'error';
+
 // Web-specific event types
 export type WebStreamEvent =
+  | { type: 'user_message'; text: string }
   | { type: 'content'; text: string }
   | { type: 'thought'; text: string }
-  | { type: 'tool_call'; toolName: string; args: Record<string, unknown> }
-  | { type: 'tool_result'; toolName: string; result: unknown }
+  | {
+      type: 'tool_call';
+      callId: string;
+      toolName: string;
+      args: Record<string, unknown>;
+    }
+  | {
+      type: 'tool_status';
+      callId: string;
+      toolName: string;
+      status: ToolStatus;
+      error?: string; // Why the call failed
+    }
+  | {
+      type: 'tool_result';
+      callId: string;
+      toolName: string;
+      result: unknown;
+    }
   | {
       type: 'tool_confirm_request';
+      callId: string;
       toolName: string;
       args: Record<string, unknown>;
       details: unknown;
     }
-  | { type: 'tool_cancelled'; toolName: string }
+  | {
+      type: 'tool_confirmed';
+      callId: string;
+      toolName: string;
+      outcome: ToolConfirmationOutcome; // As answered
+    }
+  | { type: 'tool_cancelled'; callId: string; toolName: string }
   | { type: 'chat_compressed' }
+  | {
+      type: 'model_switched';
+      from: string;
+      to: string;
+      // quota: the model ran out of quota mid-run; recovered: a preferred
+      // model is usable again
+      reason: ModelSwitchReason;
+    }
+  | { type: 'usage'; turn: TurnUsage; session: UsageStats }
+  | { type: 'command_result'; command: string; result: CommandResult }
   | { type: 'error'; message: string }
   | { type: 'cancelled' }
   | { type: 'finished' };
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Session Store
+ * Persists conversations under each project's .gemini directory so they
+ * survive a server restart, and keeps an index of their summaries so
+ * listing them reads neither the conversations nor the project tree
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Content } from '@google/genai';
+import type { UsageStats } from './usage.js';
+
+const GEMINI_DIR = '.gemini';
+const SESSIONS_DIR = 'web-sessions';
+
+export interface SessionMetadata {
+  id: string;
+  projectPath: string;
+  model: string;
+  pinnedModel?: string | null; // Picked by the user
+  usage?: UsageStats;
+  deniedTools?: string[]; // Tools disabled for the session
+  allowedCommands?: string[]; // Shell root commands run without asking
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PersistedSession extends SessionMetadata {
+  history: Content[];
+}
+
+export class SessionStore {
+  // Summary of every saved session, by id; read from the index file on
+  // first use
+  private index: Map<string, SessionMetadata> | null = null;
+  private indexLoading: Promise<Map<string, SessionMetadata>> | null = null;
+  private indexWrites: Promise<void> = Promise.resolve();
+  // The last save of each session: saves of one session run in turn, so
+  // they don't share a temp file and the newest one is written last
+  private saves = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly projectRoots: string[],
+    private readonly indexFile: string,
+  ) {}
+
+  static sessionsDir(projectPath: string): string {
+    return path.join(projectPath, GEMINI_DIR, SESSIONS_DIR);
+  }
+
+  save(session: PersistedSession): Promise<void> {
+    const saved = (this.saves.get(session.id) ?? Promise.resolve())
+      .catch(() => undefined) // Reported to that save's caller
+      .then(() => this.write(session));
+    this.saves.set(session.id, saved);
+    void saved
+      .catch(() => undefined)
+      .then(() => {
+        if (this.saves.get(session.id) === saved) {
+          this.saves.delete(session.id);
+        }
+      });
+    return saved;
+  }
+
+  async load(sessionId: string): Promise<PersistedSession | null> {
+    const metadata = (await this.loadIndex()).get(sessionId);
+    if (!metadata) {
+      return null;
+    }
+    return this.readSession(sessionFile(metadata.projectPath, sessionId));
+  }
+
+  /**
+   * Saved sessions of every project, newest first
+   */
+  async list(): Promise<SessionMetadata[]> {
+    const sessions = [...(await this.loadIndex()).values()];
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  private loadIndex(): Promise<Map<string, SessionMetadata>> {
+    if (this.index) {
+      return Promise.resolve(this.index);
+    }
+    this.indexLoading ??= this.readIndex().then((index) => {
+      this.index = index;
+      return index;
+    });
+    return this.indexLoading;
+  }
+
+  private async readIndex(): Promise<Map<string, SessionMetadata>> {
+    try {
+      const content = await fs.readFile(this.indexFile, 'utf-8');
+      return new Map(
+        Object.entries(JSON.parse(content) as Record<string, SessionMetadata>),
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read session index ${this.indexFile}:`, err);
+      }
+    }
+    // Sessions saved before the index existed, found where they used to be
+    // looked for
+    const index = new Map<string, SessionMetadata>();
+    for (const metadata of await this.scanProjects()) {
+      index.set(metadata.id, metadata);
+    }
+    this.persistIndex(index);
+    return index;
+  }
+
+  // Writes are serialized so the file always reflects the latest state
+  private persistIndex(index: Map<string, SessionMetadata>): void {
+    const data = JSON.stringify(Object.fromEntries(index), null, 2);
+    this.indexWrites = this.indexWrites
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.indexFile), { recursive: true });
+        const tmpPath = `${this.indexFile}.tmp`;
+        await fs.writeFile(tmpPath, data, 'utf-8');
+        await fs.rename(tmpPath, this.indexFile);
+      })
+      .catch((err) => {
+        console.error(`Failed to save session index ${this.indexFile}:`, err);
+      });
+  }
+
+  private async scanProjects(): Promise<SessionMetadata[]> {
+    const sessions: SessionMetadata[] = [];
+    for (const projectPath of await this.listProjectPaths()) {
+      const dir = SessionStore.sessionsDir(projectPath);
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch {
+        continue;
+      }
+
+      for (const file of files) {
+        if (!file.endsWith('.json')) continue;
+        const session = await this.readSession(path.join(dir, file));
+        if (!session) continue;
+
+        const { history: _history, ...metadata } = session;
+        sessions.push(metadata);
+      }
+    }
+    return sessions;
+  }
+
+  private async listProjectPaths(): Promise<string[]> {
+    const projectPaths: string[] = [];
+    for (const rootPath of this.projectRoots) {
+      try {
+        const entries = await fs.readdir(rootPath, { withFileTypes: true });
+        projectPaths.push(rootPath);
+        for (const entry of entries) {
+          if (entry.isDirectory() && !entry.name.startsWith('.')) {
+            projectPaths.push(path.join(rootPath, entry.name));
+          }
+        }
+      } catch {
+        // Missing roots are reported by /api/roots, nothing to list here
+      }
+    }
+    return projectPaths;
+  }
+
+  private async write(session: PersistedSession): Promise<void> {
+    const dir = SessionStore.sessionsDir(session.projectPath);
+    await fs.mkdir(dir, { recursive: true });
+
+    const filePath = sessionFile(session.projectPath, session.id);
+    // Write to a temp file first so a crash never leaves a truncated file
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(session, null, 2), 'utf-8');
+    await fs.rename(tmpPath, filePath);
+
+    const index = await this.loadIndex();
+    const { history: _history, ...metadata } = session;
+    index.set(session.id, metadata);
+    this.persistIndex(index);
+  }
+
+  private async readSession(
+    filePath: string,
+  ): Promise<PersistedSession | null> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(content) as PersistedSession;
+    } catch (err) {
+      console.error(`Failed to read session file ${filePath}:`, err);
+      return null;
+    }
+  }
+}
+
+function sessionFile(projectPath: string, sessionId: string): string {
+  return path.join(SessionStore.sessionsDir(projectPath), `${sessionId}.json`);
+}
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Login Throttle
+ * Tracks failed logins per client IP and per username. After a few free
+ * attempts each failure doubles the wait before the next one, up to a
+ * lockout period. An attempt counts as failed from the moment it starts, so
+ * attempts made side by side can't all get in before the first one fails.
+ */
+
+// Failures allowed before any delay kicks in
+const FREE_ATTEMPTS = 3;
+// Delay after the first counted failure, doubled for each one after it
+const BASE_DELAY_MS = 1000;
+// Longest wait (reached after about ten failures)
+const LOCKOUT_MS = 15 * 60 * 1000;
+// Forget a key once it has had no failures for this long
+const RESET_AFTER_MS = 60 * 60 * 1000;
+
+interface AttemptState {
+  failures: number;
+  lastFailure: number;
+  blockedUntil: number;
+}
+
+export class LoginThrottle {
+  private attempts = new Map<string, AttemptState>();
+
+  /**
+   * Milliseconds the caller must wait before trying again, 0 if allowed
+   */
+  retryAfter(ip: string, username: string): number {
+    const now = Date.now();
+    this.prune(now);
+    const blockedUntil = Math.max(
+      this.attempts.get(ipKey(ip))?.blockedUntil ?? 0,
+      this.attempts.get(userKey(username))?.blockedUntil ?? 0,
+    );
+    return Math.max(0, blockedUntil - now);
+  }
+
+  /**
+   * Start an attempt, counted as a failure until recordSuccess clears it.
+   * Returns the wait in milliseconds if the attempt is not allowed (it is
+   * then not counted), 0 otherwise.
+   */
+  beginAttempt(ip: string, username: string): number {
+    const waitMs = this.retryAfter(ip, username);
+    if (waitMs > 0) {
+      return waitMs;
+    }
+    this.recordFailure(ip, username);
+    return 0;
+  }
+
+  /**
+   * Count a failed attempt. Returns the resulting wait in milliseconds.
+   */
+  private recordFailure(ip: string, username: string): number {
+    const now = Date.now();
+    let wait = 0;
+    for (const key of [ipKey(ip), userKey(username)]) {
+      const state = this.attempts.get(key) ?? {
+        failures: 0,
+        lastFailure: 0,
+        blockedUntil: 0,
+      };
+      state.failures++;
+      state.lastFailure = now;
+      if (state.failures > FREE_ATTEMPTS) {
+        const delay = Math.min(
+          BASE_DELAY_MS * 2 ** (state.failures - FREE_ATTEMPTS - 1),
+          LOCKOUT_MS,
+        );
+        state.blockedUntil = now + delay;
+        wait = Math.max(wait, delay);
+      }
+      this.attempts.set(key, state);
+    }
+    return wait;
+  }
+
+  recordSuccess(ip: string, username: string): void {
+    this.attempts.delete(ipKey(ip));
+    this.attempts.delete(userKey(username));
+  }
+
+  private prune(now: number): void {
+    for (const [key, state] of this.attempts) {
+      if (
+        now - state.lastFailure > RESET_AFTER_MS &&
+        state.blockedUntil <= now
+      ) {
+        this.attempts.delete(key);
+      }
+    }
+  }
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+function userKey(username: string): string {
+  return `user:${username.toLowerCase()}`;
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Token Store
+ * Bearer tokens with an expiry, persisted so logins survive a restart.
+ * Only SHA-256 hashes of the tokens are written to disk.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// How long a refreshed-away token keeps working, for requests already in flight
+const REFRESH_GRACE_MS = 60 * 1000;
+
+export interface TokenInfo {
+  username: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+export interface IssuedToken {
+  token: string;
+  username: string;
+  expiresAt: number;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export class TokenStore {
+  private tokens = new Map<string, TokenInfo>(); // Keyed by token hash
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private readonly filePath: string,
+    private readonly ttlMs: number,
+  ) {}
+
+  static async load(filePath: string, ttlMs: number): Promise<TokenStore> {
+    const store = new TokenStore(filePath, ttlMs);
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const data = JSON.parse(content) as Record<string, TokenInfo>;
+      for (const [hash, info] of Object.entries(data)) {
+        store.tokens.set(hash, info);
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load tokens from ${filePath}:`, err);
+      }
+    }
+    store.prune();
+    return store;
+  }
+
+  issue(username: string): IssuedToken {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.tokens.set(hashToken(token), { username, expiresAt });
+    this.persist();
+    return { token, username, expiresAt };
+  }
+
+  /**
+   * Returns the token's owner, or null if it is unknown or expired
+   */
+  verify(token: string): TokenInfo | null {
+    const hash = hashToken(token);
+    const info = this.tokens.get(hash);
+    if (!info) {
+      return null;
+    }
+    if (info.expiresAt <= Date.now()) {
+      this.tokens.delete(hash);
+      this.persist();
+      return null;
+    }
+    return info;
+  }
+
+  /**
+   * Swap a valid token for a new one. The old token stays usable for a
+   * short grace period so concurrent requests don't fail.
+   */
+  refresh(token: string): IssuedToken | null {
+    const info = this.verify(token);
+    if (!info) {
+      return null;
+    }
+    info.expiresAt = Math.min(info.expiresAt, Date.now() + REFRESH_GRACE_MS);
+    return this.issue(info.username);
+  }
+
+  revoke(token: string): void {
+    if (this.tokens.delete(hashToken(token))) {
+      this.persist();
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [hash, info] of this.tokens) {
+      if (info.expiresAt <= now) {
+        this.tokens.delete(hash);
+      }
+    }
+  }
+
+  // Writes are serialized so the file always reflects the latest state
+  private persist(): void {
+    this.prune();
+    const data = JSON.stringify(Object.fromEntries(this.tokens), null, 2);
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, data, { encoding: 'utf-8', mode: 0o600 });
+        await fs.rename(tmpPath, this.filePath);
+      })
+      .catch((err) => {
+        console.error(`Failed to save tokens to ${this.filePath}:`, err);
+      });
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Tool Registry View
+ * Describes the tools a session's Config exposes, and answers calls to tools
+ * the user has disabled for the session
+ */
+
+import {
+  DiscoveredMCPTool,
+  ToolErrorType,
+  type AnyDeclarativeTool,
+  type Config,
+  type ErroredToolCall,
+  type ToolCallRequestInfo,
+} from '@google/gemini-cli-core';
+
+export type ToolSource = { type: 'builtin' } | { type: 'mcp'; server: string };
+
+export interface ToolInfo {
+  name: string;
+  displayName: string;
+  description: string;
+  parameters: unknown; // JSON schema of the arguments
+  source: ToolSource;
+  enabled: boolean; // False if disabled for the session
+}
+
+function describeTool(
+  tool: AnyDeclarativeTool,
+  deniedTools: ReadonlySet<string>,
+): ToolInfo {
+  return {
+    name: tool.name,
+    displayName: tool.displayName,
+    description: tool.description,
+    parameters: tool.schema.parametersJsonSchema ?? null,
+    source:
+      tool instanceof DiscoveredMCPTool
+        ? { type: 'mcp', server: tool.serverName }
+        : { type: 'builtin' },
+    enabled: !deniedTools.has(tool.name),
+  };
+}
+
+export function listTools(
+  config: Config,
+  deniedTools: ReadonlySet<string>,
+): ToolInfo[] {
+  return config
+    .getToolRegistry()
+    .getAllTools()
+    .map((tool) => describeTool(tool, deniedTools));
+}
+
+/**
+ * The outcome of a call to a disabled tool: an error the model is told
+ * about, so it can carry on without the tool
+ */
+export function deniedToolCall(request: ToolCallRequestInfo): ErroredToolCall {
+  const message = `Tool "${request.name}" is disabled for this session and was not run. Do not call it again; continue without it or ask the user to enable it.`;
+  return {
+    status: 'error',
+    request,
+    response: {
+      callId: request.callId,
+      responseParts: [
+        {
+          functionResponse: {
+            id: request.callId,
+            name: request.name,
+            response: { error: message },
+          },
+        },
+      ],
+      resultDisplay: message,
+      error: new Error(message),
+      errorType: ToolErrorType.PERMISSION_DENIED,
+    },
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Usage Accounting
+ * Token counts and latency of each model request, totalled per session and
+ * per model
+ */
+
+import type { GenerateContentResponseUsageMetadata } from '@google/genai';
+
+export interface TokenCounts {
+  prompt: number;
+  response: number;
+  cached: number; // Part of the prompt served from the context cache
+  thoughts: number;
+  total: number;
+}
+
+// One model request (a turn of a run)
+export interface TurnUsage extends TokenCounts {
+  model: string;
+  latencyMs: number; // From sending the request to the end of its stream
+  finishReason: string | null;
+}
+
+export interface UsageTotals extends TokenCounts {
+  requests: number;
+  latencyMs: number;
+}
+
+export interface UsageStats {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+}
+
+/**
+ * Token counts reported by the API, with missing fields as 0
+ */
+export function tokenCounts(
+  metadata: GenerateContentResponseUsageMetadata | undefined,
+): TokenCounts {
+  return {
+    prompt: metadata?.promptTokenCount ?? 0,
+    response: metadata?.candidatesTokenCount ?? 0,
+    cached: metadata?.cachedContentTokenCount ?? 0,
+    thoughts: metadata?.thoughtsTokenCount ?? 0,
+    total: metadata?.totalTokenCount ?? 0,
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    prompt: 0,
+    response: 0,
+    cached: 0,
+    thoughts: 0,
+    total: 0,
+    requests: 0,
+    latencyMs: 0,
+  };
+}
+
+function addTurn(totals: UsageTotals, turn: TurnUsage): void {
+  totals.prompt += turn.prompt;
+  totals.response += turn.response;
+  totals.cached += turn.cached;
+  totals.thoughts += turn.thoughts;
+  totals.total += turn.total;
+  totals.requests++;
+  totals.latencyMs += turn.latencyMs;
+}
+
+export class SessionUsage {
+  private total: UsageTotals;
+  private byModel = new Map<string, UsageTotals>();
+
+  // Continue from the totals saved with a session
+  constructor(saved?: UsageStats) {
+    this.total = { ...emptyTotals(), ...saved?.total };
+    for (const [model, totals] of Object.entries(saved?.byModel ?? {})) {
+      this.byModel.set(model, { ...emptyTotals(), ...totals });
+    }
+  }
+
+  record(turn: TurnUsage): void {
+    addTurn(this.total, turn);
+    let modelTotals = this.byModel.get(turn.model);
+    if (!modelTotals) {
+      modelTotals = emptyTotals();
+      this.byModel.set(turn.model, modelTotals);
+    }
+    addTurn(modelTotals, turn);
+  }
+
+  stats(): UsageStats {
+    return {
+      total: { ...this.total },
+      byModel: Object.fromEntries(
+        [...this.byModel].map(([model, totals]) => [model, { ...totals }]),
+      ),
+    };
+  }
+}
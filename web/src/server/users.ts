@@ -0,0 +1,237 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * User Store
+ * Web UI accounts kept in a JSON file, passwords hashed with scrypt
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export type AccessMode = 'read' | 'write';
+
+// Access to a project root or a single project (and everything below it)
+export interface ProjectAccess {
+  path: string;
+  mode: AccessMode;
+}
+
+export interface UserRecord {
+  username: string;
+  // Format: scrypt:<salt hex>:<hash hex>
+  passwordHash: string;
+  // Omitted: read-write access to every configured project root
+  access?: ProjectAccess[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What the rest of the server sees: never the hash
+export interface User {
+  username: string;
+  access?: ProjectAccess[];
+  createdAt: string;
+}
+
+interface UsersFile {
+  users: UserRecord[];
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  passwordHash: string,
+): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = passwordHash.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(
+    password,
+    Buffer.from(saltHex, 'hex'),
+    expected.length,
+  );
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function toUser(record: UserRecord): User {
+  return {
+    username: record.username,
+    access: record.access,
+    createdAt: record.createdAt,
+  };
+}
+
+export class UserStore {
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<User[]> {
+    const { users } = await this.read();
+    return users.map(toUser);
+  }
+
+  async get(username: string): Promise<User | null> {
+    const { users } = await this.read();
+    const record = users.find((u) => u.username === username);
+    return record ? toUser(record) : null;
+  }
+
+  async add(username: string, password: string): Promise<User> {
+    validateUsername(username);
+    validatePassword(password);
+
+    const data = await this.read();
+    if (data.users.some((u) => u.username === username)) {
+      throw new Error(`User already exists: ${username}`);
+    }
+
+    const now = new Date().toISOString();
+    const record: UserRecord = {
+      username,
+      passwordHash: await hashPassword(password),
+      createdAt: now,
+      updatedAt: now,
+    };
+    data.users.push(record);
+    await this.write(data);
+    return toUser(record);
+  }
+
+  async remove(username: string): Promise<void> {
+    const data = await this.read();
+    const index = data.users.findIndex((u) => u.username === username);
+    if (index === -1) {
+      throw new Error(`User not found: ${username}`);
+    }
+    data.users.splice(index, 1);
+    await this.write(data);
+  }
+
+  async resetPassword(username: string, password: string): Promise<void> {
+    validatePassword(password);
+
+    const data = await this.read();
+    const record = this.findRecord(data, username);
+    record.passwordHash = await hashPassword(password);
+    record.updatedAt = new Date().toISOString();
+    await this.write(data);
+  }
+
+  /**
+   * Grant access to a root or project, replacing any grant for that path
+   */
+  async grant(
+    username: string,
+    projectPath: string,
+    mode: AccessMode,
+  ): Promise<void> {
+    if (mode !== 'read' && mode !== 'write') {
+      throw new Error('Mode must be "read" or "write"');
+    }
+
+    const data = await this.read();
+    const record = this.findRecord(data, username);
+    const resolved = path.resolve(projectPath);
+    record.access = [
+      ...(record.access ?? []).filter((a) => a.path !== resolved),
+      { path: resolved, mode },
+    ];
+    record.updatedAt = new Date().toISOString();
+    await this.write(data);
+  }
+
+  async revoke(username: string, projectPath: string): Promise<void> {
+    const data = await this.read();
+    const record = this.findRecord(data, username);
+    const resolved = path.resolve(projectPath);
+    const access = record.access ?? [];
+    if (!access.some((a) => a.path === resolved)) {
+      throw new Error(`${username} has no grant for ${resolved}`);
+    }
+    record.access = access.filter((a) => a.path !== resolved);
+    record.updatedAt = new Date().toISOString();
+    await this.write(data);
+  }
+
+  /**
+   * Check a username/password pair. Returns the user on success.
+   */
+  async verify(username: string, password: string): Promise<User | null> {
+    const { users } = await this.read();
+    const record = users.find((u) => u.username === username);
+    if (!record) {
+      // Hash anyway so unknown users take as long as wrong passwords
+      await hashPassword(password);
+      return null;
+    }
+    return (await verifyPassword(password, record.passwordHash))
+      ? toUser(record)
+      : null;
+  }
+
+  private findRecord(data: UsersFile, username: string): UserRecord {
+    const record = data.users.find((u) => u.username === username);
+    if (!record) {
+      throw new Error(`User not found: ${username}`);
+    }
+    return record;
+  }
+
+  private async read(): Promise<UsersFile> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(content) as Partial<UsersFile>;
+      return { users: data.users ?? [] };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { users: [] };
+      }
+      throw err;
+    }
+  }
+
+  private async write(data: UsersFile): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), {
+      encoding: 'utf-8',
+      mode: 0o600,
+    });
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+function validateUsername(username: string): void {
+  if (!/^[A-Za-z0-9_.-]{1,64}$/.test(username)) {
+    throw new Error(
+      'Username must be 1-64 characters of letters, digits, "_", "." or "-"',
+    );
+  }
+}
+
+function validatePassword(password: string): void {
+  if (password.length < 8) {
+    throw new Error('Password must be at least 8 characters');
+  }
+}
@@ -11,14 +11,61 @@
 
 import type { WebSocketServer, WebSocket } from 'ws';
 import type { IncomingMessage } from 'node:http';
-import type { SessionManager, WebStreamEvent } from './session.js';
-import { isValidToken } from './auth.js';
+import type { SessionManager, SequencedEvent } from './session.js';
+import type { TokenStore } from './tokens.js';
+import type { AccessControl } from './permissions.js';
+import type { CommandRegistry } from './commands.js';
+import { historyToMessages } from './history.js';
+import { parseOutcome } from './policy.js';
 
 interface WSMessage {
   type: string;
   payload?: unknown;
 }
 
+// Every session-scoped message names the session it targets
+interface SessionPayload {
+  sessionId: string;
+}
+
+interface AttachPayload extends SessionPayload {
+  // Last stream position the client has seen for this session, if any
+  streamId?: string;
+  lastSeq?: number;
+}
+
+interface AuthPayload {
+  token: string;
+}
+
+// Per-socket state: who is connected and the session whose events this
+// socket is receiving
+interface Connection {
+  ws: WebSocket;
+  username: string | null; // Set once the auth handshake succeeds
+  sessionId: string | null;
+  unsubscribe: (() => void) | null;
+}
+
+type AuthedConnection = Connection & { username: string };
+
+interface ChatPayload extends SessionPayload {
+  message: string;
+}
+
+interface ConfirmPayload extends SessionPayload {
+  callId?: string; // Call answered; older clients answer the oldest
+  // A ToolConfirmationOutcome; older clients send only `confirmed`
+  outcome?: string;
+  confirmed?: boolean;
+  command?: string; // Commands a "proceed_always" shell approval covers
+  newContent?: string; // The user's version of a proposed edit
+  allowRoots?: string[]; // Root commands to run without asking from now on
+}
+
+// How long a new socket has to send its auth message
+const AUTH_TIMEOUT_MS = 10 * 1000;
+
 // Logger utility
 function log(category: string, message: string, data?: unknown) {
   const timestamp = new Date().toISOString();
@@ -39,31 +86,47 @@ function logError(category: string, message: string, error?: unknown) {
 export function setupWebSocket(
   wss: WebSocketServer,
   sessionManager: SessionManager,
+  tokens: TokenStore,
+  access: AccessControl,
+  commands: CommandRegistry,
 ) {
   log('Setup', 'WebSocket server initialized');
 
   wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
-    // Validate token from query string
-    const url = new URL(req.url || '', `http://${req.headers.host}`);
-    const token = url.searchParams.get('token');
-
     log('Connect', `New connection attempt`, {
-      hasToken: !!token,
-      tokenPreview: token ? `${token.substring(0, 8)}...` : null,
       ip: req.socket.remoteAddress,
     });
 
-    if (!token || !isValidToken(token)) {
-      log('Connect', 'Connection rejected: invalid token');
-      ws.close(1008, 'Unauthorized');
-      return;
-    }
+    const conn: Connection = {
+      ws,
+      username: null,
+      sessionId: null,
+      unsubscribe: null,
+    };
 
-    log('Connect', 'Connection accepted');
+    // The first message must be 'auth'; drop sockets that never send it
+    const authTimer = setTimeout(() => {
+      log('Connect', 'Connection rejected: authentication timeout');
+      ws.close(1008, 'Authentication timeout');
+    }, AUTH_TIMEOUT_MS);
 
     ws.on('message', async (data: Buffer) => {
+      let message: WSMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        logError('Message', 'Failed to parse message', error);
+        sendError(ws, 'Invalid message format');
+        return;
+      }
+
+      if (!conn.username) {
+        clearTimeout(authTimer);
+        handleAuth(conn, message, tokens);
+        return;
+      }
+
       try {
-        const message: WSMessage = JSON.parse(data.toString());
         log('Message', `Received: ${message.type}`, {
           payloadType: typeof message.payload,
           payloadPreview:
@@ -73,14 +136,23 @@ export function setupWebSocket(
                 ? '(object)'
                 : undefined,
         });
-        await handleMessage(ws, message, sessionManager);
+        await handleMessage(
+          conn as AuthedConnection,
+          message,
+          sessionManager,
+          access,
+          commands,
+        );
       } catch (error) {
-        logError('Message', 'Failed to parse message', error);
+        logError('Message', 'Failed to handle message', error);
         sendError(ws, 'Invalid message format');
       }
     });
 
     ws.on('close', (code, reason) => {
+      // The session keeps running; its events stay in the replay buffer
+      clearTimeout(authTimer);
+      conn.unsubscribe?.();
       log('Connect', `Client disconnected`, {
         code,
         reason: reason.toString(),
@@ -90,51 +162,116 @@ export function setupWebSocket(
     ws.on('error', (error) => {
       logError('Connect', 'WebSocket error', error);
     });
+  });
+}
 
-    // Send initial connection status
-    log('Connect', 'Sending connected event');
-    send(ws, { type: 'connected' });
+/**
+ * Authenticate a new socket from its first message, which must be
+ * { type: 'auth', payload: { token } }. The token never appears in the URL,
+ * so it stays out of proxy access logs and browser history.
+ */
+function handleAuth(conn: Connection, message: WSMessage, tokens: TokenStore) {
+  const { token } = (message.payload ?? {}) as AuthPayload;
+  const tokenInfo =
+    message.type === 'auth' && typeof token === 'string'
+      ? tokens.verify(token)
+      : null;
 
-    // Send current session info if any
-    const session = sessionManager.getSession();
-    if (session) {
-      log('Connect', 'Sending existing session info', {
-        id: session.id,
-        projectPath: session.projectPath,
-      });
-      send(ws, {
-        type: 'session_info',
-        payload: {
-          id: session.id,
-          projectPath: session.projectPath,
-        },
-      });
-    }
-  });
+  if (!tokenInfo) {
+    log('Connect', `Connection rejected: invalid ${message.type} handshake`);
+    conn.ws.close(1008, 'Unauthorized');
+    return;
+  }
+
+  conn.username = tokenInfo.username;
+  log('Connect', `Connection authenticated for ${tokenInfo.username}`);
+  send(conn.ws, { type: 'connected' });
 }
 
 async function handleMessage(
-  ws: WebSocket,
+  conn: AuthedConnection,
   message: WSMessage,
   sessionManager: SessionManager,
+  access: AccessControl,
+  commands: CommandRegistry,
 ) {
+  const { ws } = conn;
+  const allowed = (sessionId: string, need: 'view' | 'run') =>
+    checkAccess(conn, sessionId, need, sessionManager, access);
+
   switch (message.type) {
-    case 'chat':
-      await handleChatMessage(ws, message.payload as string, sessionManager);
+    case 'attach': {
+      const payload = (message.payload ?? {}) as AttachPayload;
+      if (await allowed(payload.sessionId, 'view')) {
+        handleAttach(conn, payload, sessionManager);
+      }
+      break;
+    }
+
+    case 'chat': {
+      const { sessionId, message: text } = (message.payload ??
+        {}) as ChatPayload;
+      if (await allowed(sessionId, 'run')) {
+        await handleChatMessage(ws, sessionId, text, sessionManager, commands);
+      }
       break;
+    }
 
     case 'confirm_tool': {
-      const { confirmed } = message.payload as { confirmed: boolean };
-      log('Handler', `Tool confirmation: ${confirmed}`);
-      sessionManager.confirmTool(confirmed);
+      const {
+        sessionId,
+        callId,
+        outcome,
+        confirmed,
+        command,
+        newContent,
+        allowRoots,
+      } = (message.payload ?? {}) as ConfirmPayload;
+      const answer =
+        outcome !== undefined
+          ? parseOutcome(outcome)
+          : parseOutcome(confirmed ? 'proceed_once' : 'cancel');
+      log('Handler', `Tool confirmation for ${sessionId}: ${answer}`);
+      if (!answer) {
+        sendError(ws, `Unknown confirmation outcome: ${outcome}`);
+        break;
+      }
+      // Approving runs the tool, so it needs the same rights as chatting
+      if (await allowed(sessionId, 'run')) {
+        try {
+          await sessionManager.confirmTool(
+            sessionId,
+            typeof callId === 'string' ? callId : undefined,
+            answer,
+            conn.username,
+            {
+              command: typeof command === 'string' ? command : undefined,
+              newContent:
+                typeof newContent === 'string' ? newContent : undefined,
+              allowRoots: Array.isArray(allowRoots)
+                ? allowRoots.filter((root) => typeof root === 'string')
+                : undefined,
+            },
+          );
+        } catch (error) {
+          sendError(
+            ws,
+            error instanceof Error ? error.message : 'Failed to confirm tool',
+          );
+        }
+      }
       break;
     }
 
-    case 'cancel':
-      log('Handler', 'Cancel request received');
-      sessionManager.cancelCurrentRequest();
-      send(ws, { type: 'cancelled' });
+    case 'cancel': {
+      const { sessionId } = (message.payload ?? {}) as SessionPayload;
+      log('Handler', `Cancel request received for ${sessionId}`);
+      // Stopping a run takes the same rights as starting one
+      if (await allowed(sessionId, 'run')) {
+        sessionManager.cancelCurrentRequest(sessionId);
+      }
       break;
+    }
 
     case 'ping':
       send(ws, { type: 'pong' });
@@ -146,15 +283,169 @@ async function handleMessage(
   }
 }
 
+/**
+ * Check the connection's user against the session's project. Permissions
+ * are read per message, so revoked grants take effect immediately.
+ * Unknown sessions pass; the handlers report those themselves.
+ */
+async function checkAccess(
+  conn: AuthedConnection,
+  sessionId: string,
+  need: 'view' | 'run',
+  sessionManager: SessionManager,
+  access: AccessControl,
+): Promise<boolean> {
+  const permissions = await access.forUser(conn.username);
+  if (!permissions) {
+    log('Access', `User no longer exists: ${conn.username}`);
+    conn.ws.close(1008, 'Unauthorized');
+    return false;
+  }
+
+  const session = sessionId ? sessionManager.getSession(sessionId) : null;
+  if (!session) {
+    return true;
+  }
+
+  const allowed =
+    need === 'view'
+      ? permissions.canRead(session.projectPath)
+      : permissions.canRun(session.projectPath, session.readOnly);
+  if (!allowed) {
+    log('Access', `${conn.username} denied ${need} on ${sessionId}`);
+    sendError(
+      conn.ws,
+      need === 'view' ? 'Access denied' : 'Access denied: read-only access',
+    );
+  }
+  return allowed;
+}
+
+/**
+ * Point the socket at a session. A client that reports the last sequence it
+ * saw gets exactly the events it missed; otherwise it gets a fresh snapshot
+ * (history plus the events of any run in progress).
+ */
+function handleAttach(
+  conn: Connection,
+  { sessionId, streamId, lastSeq }: AttachPayload,
+  sessionManager: SessionManager,
+) {
+  const { ws } = conn;
+  conn.unsubscribe?.();
+  conn.unsubscribe = null;
+  conn.sessionId = null;
+
+  const session = sessionId ? sessionManager.getSession(sessionId) : null;
+  if (!session) {
+    log('Attach', `Attach to unknown session: ${sessionId}`);
+    send(ws, { type: 'session_closed', payload: { sessionId } });
+    return;
+  }
+
+  log('Attach', 'Sending session info', {
+    id: session.id,
+    projectPath: session.projectPath,
+    lastSeq,
+  });
+  send(ws, {
+    type: 'session_info',
+    payload: {
+      id: session.id,
+      projectPath: session.projectPath,
+      readOnly: session.readOnly,
+      busy: sessionManager.isBusy(session.id),
+    },
+  });
+
+  const missed =
+    typeof lastSeq === 'number'
+      ? sessionManager.getEventsSince(session.id, lastSeq, streamId)
+      : null;
+
+  let replay: SequencedEvent[];
+  if (missed) {
+    log('Attach', `Resuming stream after seq ${lastSeq}: ${missed.length} missed event(s)`);
+    replay = missed;
+  } else {
+    // Replay the transcript so a reload shows the whole conversation
+    const snapshot = sessionManager.getSnapshot(session.id);
+    const messages = historyToMessages(snapshot.history, session.createdAt);
+    log('Attach', `Replaying ${messages.length} history message(s)`, {
+      seq: snapshot.seq,
+      runEvents: snapshot.events.length,
+    });
+    send(ws, {
+      type: 'history',
+      sessionId: session.id,
+      payload: {
+        messages,
+        streamId: snapshot.streamId,
+        seq: snapshot.seq,
+        // A run's events may be gone while it still goes on
+        busy: sessionManager.isBusy(session.id),
+      },
+    });
+    replay = snapshot.events;
+  }
+
+  for (const event of replay) {
+    sendStreamEvent(ws, session.id, event);
+  }
+  if (!missed) {
+    // Their requests may be gone with the run's events, and the client
+    // dropped any it had along with the rest of its view. Sent without a
+    // seq: they are state, not new events.
+    for (const pending of sessionManager.getPendingConfirmations(session.id)) {
+      send(ws, {
+        type: 'stream',
+        sessionId: session.id,
+        payload: pending.event,
+      });
+    }
+  }
+
+  conn.sessionId = session.id;
+  conn.unsubscribe = sessionManager.subscribe(session.id, (event) => {
+    log(
+      'Stream',
+      `[${event.seq}] Stream event: ${event.event.type}`,
+      event.event.type === 'content'
+        ? { length: event.event.text.length }
+        : event.event.type === 'error'
+          ? { message: event.event.message }
+          : event.event.type === 'tool_call'
+            ? { tool: event.event.toolName }
+            : event.event.type === 'tool_result'
+              ? {
+                  tool: event.event.toolName,
+                  hasResult: event.event.result !== undefined,
+                }
+              : undefined,
+    );
+    sendStreamEvent(ws, session.id, event);
+  });
+}
+
+function sendStreamEvent(
+  ws: WebSocket,
+  sessionId: string,
+  { seq, event }: SequencedEvent,
+) {
+  send(ws, { type: 'stream', sessionId, seq, payload: event });
+}
+
 async function handleChatMessage(
   ws: WebSocket,
+  sessionId: string,
   message: string,
   sessionManager: SessionManager,
+  commands: CommandRegistry,
 ) {
   log('Chat', `Chat message received, length: ${message?.length || 0}`);
-  log('Chat', `Session active: ${sessionManager.isSessionActive()}`);
+  log('Chat', `Session ${sessionId} active: ${sessionManager.isSessionActive(sessionId)}`);
 
-  if (!sessionManager.isSessionActive()) {
+  if (!sessionId || !sessionManager.isSessionActive(sessionId)) {
     log('Chat', 'No active session');
     sendError(ws, 'No active session. Please select a project first.');
     return;
@@ -166,31 +457,31 @@ async function handleChatMessage(
     return;
   }
 
-  let eventCount = 0;
+  if (sessionManager.isBusy(sessionId)) {
+    log('Chat', 'Session busy');
+    sendError(ws, 'A request is already in progress for this session');
+    return;
+  }
+
+  // Slash commands run here and never reach the model
+  const invocation = commands.match(message);
+  const session = sessionManager.getSession(sessionId);
+  if (invocation && session) {
+    log('Chat', `Running command /${invocation.command.name}`);
+    const result = await commands.execute(invocation.command, {
+      session,
+      sessionManager,
+      args: invocation.args,
+    });
+    sessionManager.publishCommandResult(sessionId, message.trim(), result);
+    return;
+  }
 
   try {
+    // Events reach every attached socket through the session subscription
     log('Chat', 'Starting sendMessage...');
-    await sessionManager.sendMessage(message, (event: WebStreamEvent) => {
-      eventCount++;
-      log(
-        'Chat',
-        `[${eventCount}] Stream event: ${event.type}`,
-        event.type === 'content'
-          ? { length: event.text.length }
-          : event.type === 'error'
-            ? { message: event.message }
-            : event.type === 'tool_call'
-              ? { tool: event.toolName }
-              : event.type === 'tool_result'
-                ? {
-                    tool: event.toolName,
-                    hasResult: event.result !== undefined,
-                  }
-                : undefined,
-      );
-      send(ws, { type: 'stream', payload: event });
-    });
-    log('Chat', `sendMessage completed, total events: ${eventCount}`);
+    await sessionManager.sendMessage(sessionId, message);
+    log('Chat', 'sendMessage completed');
   } catch (error) {
     logError('Chat', 'sendMessage error', error);
     sendError(ws, error instanceof Error ? error.message : 'Chat error');